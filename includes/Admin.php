@@ -69,6 +69,16 @@ class Admin {
             'wp-mcp-settings',
             array($this, 'render_settings_page')
         );
+        
+        // Usage submenu
+        add_submenu_page(
+            'wp-mcp-chat',
+            __('MCP Usage', 'wp-mcp'),
+            __('Usage', 'wp-mcp'),
+            'manage_options',
+            'wp-mcp-usage',
+            array($this, 'render_usage_page')
+        );
     }
     
     /**
@@ -99,6 +109,8 @@ class Admin {
 
         // Localize script with WordPress data only if script was loaded.
         if ( $script_loaded ) {
+            $user = wp_get_current_user();
+
             wp_localize_script(
                 'wp-mcp-app',
                 'wpMcp',
@@ -106,7 +118,12 @@ class Admin {
                     'restUrl'     => rest_url( 'wp-mcp/v1/' ),
                     'mcpUrl'      => rest_url( 'mcp/mcp-adapter-default-server' ),
                     'nonce'       => wp_create_nonce( 'wp_rest' ),
-                    'currentUser' => wp_get_current_user(),
+                    'currentUser' => array(
+                        'ID'           => $user->ID,
+                        'display_name' => $user->display_name,
+                        'user_email'   => $user->user_email,
+                        'roles'        => array_values( $user->roles ),
+                    ),
                     'ajaxUrl'     => admin_url( 'admin-ajax.php' ),
                     'pluginUrl'   => WP_MCP_PLUGIN_URL,
                     'isDebug'     => defined( 'WP_DEBUG' ) && WP_DEBUG,
@@ -276,6 +293,30 @@ class Admin {
             'sanitize_callback' => 'esc_url_raw',
         ));
         
+        register_setting('wp_mcp_settings', 'wp_mcp_anthropic_api_key', array(
+            'sanitize_callback' => 'sanitize_text_field',
+        ));
+        
+        register_setting('wp_mcp_settings', 'wp_mcp_gemini_api_key', array(
+            'sanitize_callback' => 'sanitize_text_field',
+        ));
+        
+        register_setting('wp_mcp_settings', 'wp_mcp_local_llm_url', array(
+            'sanitize_callback' => 'esc_url_raw',
+        ));
+        
+        register_setting('wp_mcp_settings', 'wp_mcp_local_llm_api_key', array(
+            'sanitize_callback' => 'sanitize_text_field',
+        ));
+        
+        
+        register_setting('wp_mcp_settings', 'wp_mcp_mcp_servers', array(
+            'sanitize_callback' => array($this, 'sanitize_mcp_servers'),
+        ));
+        
+        register_setting('wp_mcp_settings', 'wp_mcp_remote_sites', array(
+            'sanitize_callback' => array($this, 'sanitize_remote_sites'),
+        ));
         
         register_setting('wp_mcp_settings', 'wp_mcp_chat_history_enabled', array(
             'sanitize_callback' => array($this, 'sanitize_checkbox'),
@@ -285,6 +326,34 @@ class Admin {
             'sanitize_callback' => 'intval',
         ));
         
+        register_setting('wp_mcp_settings', 'wp_mcp_agent_max_iterations', array(
+            'sanitize_callback' => 'absint',
+        ));
+        
+        register_setting('wp_mcp_settings', 'wp_mcp_agent_max_tool_calls', array(
+            'sanitize_callback' => 'absint',
+        ));
+        
+        register_setting('wp_mcp_settings', 'wp_mcp_agent_max_parallel_tool_calls', array(
+            'sanitize_callback' => 'absint',
+        ));
+        
+        register_setting('wp_mcp_settings', 'wp_mcp_tool_approval_policy', array(
+            'sanitize_callback' => array($this, 'sanitize_tool_approval_policy'),
+        ));
+        
+        register_setting('wp_mcp_settings', 'wp_mcp_system_prompt', array(
+            'sanitize_callback' => 'sanitize_textarea_field',
+        ));
+        
+        register_setting('wp_mcp_settings', 'wp_mcp_model_prices', array(
+            'sanitize_callback' => array($this, 'sanitize_model_prices'),
+        ));
+        
+        register_setting('wp_mcp_settings', 'wp_mcp_monthly_budget', array(
+            'sanitize_callback' => array($this, 'sanitize_budget'),
+        ));
+        
         // Add settings section
         add_settings_section(
             'wp_mcp_api_settings',
@@ -318,6 +387,54 @@ class Admin {
             'wp_mcp_api_settings'
         );
         
+        add_settings_field(
+            'wp_mcp_anthropic_api_key',
+            __('Anthropic API Key', 'wp-mcp'),
+            array($this, 'render_anthropic_api_key_field'),
+            'wp_mcp_settings',
+            'wp_mcp_api_settings'
+        );
+        
+        add_settings_field(
+            'wp_mcp_gemini_api_key',
+            __('Google Gemini API Key', 'wp-mcp'),
+            array($this, 'render_gemini_api_key_field'),
+            'wp_mcp_settings',
+            'wp_mcp_api_settings'
+        );
+        
+        add_settings_field(
+            'wp_mcp_local_llm_url',
+            __('Local LLM URL', 'wp-mcp'),
+            array($this, 'render_local_llm_url_field'),
+            'wp_mcp_settings',
+            'wp_mcp_api_settings'
+        );
+        
+        add_settings_field(
+            'wp_mcp_local_llm_api_key',
+            __('Local LLM API Key', 'wp-mcp'),
+            array($this, 'render_local_llm_api_key_field'),
+            'wp_mcp_settings',
+            'wp_mcp_api_settings'
+        );
+        
+        
+        add_settings_field(
+            'wp_mcp_mcp_servers',
+            __('Additional MCP Servers', 'wp-mcp'),
+            array($this, 'render_mcp_servers_field'),
+            'wp_mcp_settings',
+            'wp_mcp_api_settings'
+        );
+        
+        add_settings_field(
+            'wp_mcp_remote_sites',
+            __('Remote WordPress Sites', 'wp-mcp'),
+            array($this, 'render_remote_sites_field'),
+            'wp_mcp_settings',
+            'wp_mcp_api_settings'
+        );
         
         add_settings_field(
             'wp_mcp_chat_history_enabled',
@@ -334,6 +451,62 @@ class Admin {
             'wp_mcp_settings',
             'wp_mcp_api_settings'
         );
+        
+        add_settings_field(
+            'wp_mcp_agent_max_iterations',
+            __('Max Agent Steps per Turn', 'wp-mcp'),
+            array($this, 'render_agent_max_iterations_field'),
+            'wp_mcp_settings',
+            'wp_mcp_api_settings'
+        );
+        
+        add_settings_field(
+            'wp_mcp_agent_max_tool_calls',
+            __('Max Tool Calls per Turn', 'wp-mcp'),
+            array($this, 'render_agent_max_tool_calls_field'),
+            'wp_mcp_settings',
+            'wp_mcp_api_settings'
+        );
+        
+        add_settings_field(
+            'wp_mcp_agent_max_parallel_tool_calls',
+            __('Max Parallel Tool Calls', 'wp-mcp'),
+            array($this, 'render_agent_max_parallel_tool_calls_field'),
+            'wp_mcp_settings',
+            'wp_mcp_api_settings'
+        );
+        
+        add_settings_field(
+            'wp_mcp_tool_approval_policy',
+            __('Tool Approval Policy', 'wp-mcp'),
+            array($this, 'render_tool_approval_policy_field'),
+            'wp_mcp_settings',
+            'wp_mcp_api_settings'
+        );
+        
+        add_settings_field(
+            'wp_mcp_system_prompt',
+            __('System Prompt', 'wp-mcp'),
+            array($this, 'render_system_prompt_field'),
+            'wp_mcp_settings',
+            'wp_mcp_api_settings'
+        );
+        
+        add_settings_field(
+            'wp_mcp_model_prices',
+            __('Model Prices', 'wp-mcp'),
+            array($this, 'render_model_prices_field'),
+            'wp_mcp_settings',
+            'wp_mcp_api_settings'
+        );
+        
+        add_settings_field(
+            'wp_mcp_monthly_budget',
+            __('Monthly Budget per User', 'wp-mcp'),
+            array($this, 'render_monthly_budget_field'),
+            'wp_mcp_settings',
+            'wp_mcp_api_settings'
+        );
     }
     
     /**
@@ -370,6 +543,90 @@ class Admin {
         echo '<p class="description">' . __('Your Cloudflare AI Gateway endpoint URL (optional).', 'wp-mcp') . '</p>';
     }
     
+    /**
+     * Render Anthropic API key field
+     */
+    public function render_anthropic_api_key_field() {
+        $value = get_option('wp_mcp_anthropic_api_key', '');
+        echo '<input type="password" name="wp_mcp_anthropic_api_key" value="' . esc_attr($value) . '" class="regular-text" />';
+        echo '<p class="description">' . __('Your Anthropic API key, to chat with Claude models (optional).', 'wp-mcp') . '</p>';
+    }
+    
+    /**
+     * Render Gemini API key field
+     */
+    public function render_gemini_api_key_field() {
+        $value = get_option('wp_mcp_gemini_api_key', '');
+        echo '<input type="password" name="wp_mcp_gemini_api_key" value="' . esc_attr($value) . '" class="regular-text" />';
+        echo '<p class="description">' . __('Your Google AI Studio API key, to chat with Gemini models (optional).', 'wp-mcp') . '</p>';
+    }
+    
+    /**
+     * Render local LLM URL field
+     */
+    public function render_local_llm_url_field() {
+        $value = get_option('wp_mcp_local_llm_url', '');
+        echo '<input type="url" name="wp_mcp_local_llm_url" value="' . esc_attr($value) . '" class="regular-text" placeholder="http://localhost:11434/v1" />';
+        echo '<p class="description">' . __('Base URL of an OpenAI-compatible server such as Ollama, reachable from this WordPress server (optional).', 'wp-mcp') . '</p>';
+    }
+    
+    /**
+     * Render local LLM API key field
+     */
+    public function render_local_llm_api_key_field() {
+        $value = get_option('wp_mcp_local_llm_api_key', '');
+        echo '<input type="password" name="wp_mcp_local_llm_api_key" value="' . esc_attr($value) . '" class="regular-text" />';
+        echo '<p class="description">' . __('Sent as a bearer token, if your local server requires one.', 'wp-mcp') . '</p>';
+    }
+    
+    /**
+     * Render additional MCP servers field
+     */
+    public function render_mcp_servers_field() {
+        $servers = (array) get_option('wp_mcp_mcp_servers', array());
+        $lines = array();
+        foreach ($servers as $server) {
+            $lines[] = $server['name'] . ' | ' . $server['url'];
+        }
+        echo '<textarea name="wp_mcp_mcp_servers" rows="4" class="large-text code" placeholder="WooCommerce | https://example.com/wp-json/woocommerce/mcp">' . esc_textarea(implode("\n", $lines)) . '</textarea>';
+        echo '<p class="description">' . __('One server per line as "Name | URL". The chat connects to this site\'s MCP server and every server listed here; their tools are prefixed with an id made from the server name, e.g. "woocommerce__", to avoid collisions. Servers on this site are authenticated as the current user, other servers must allow unauthenticated cross-origin requests.', 'wp-mcp') . '</p>';
+    }
+    
+    /**
+     * Render remote sites field as one row per site plus an empty row to add one
+     */
+    public function render_remote_sites_field() {
+        $sites = (array) get_option('wp_mcp_remote_sites', array());
+        $sites[] = array('id' => '', 'name' => '', 'url' => '', 'auth_type' => 'application_password', 'username' => '', 'secret' => '');
+        
+        echo '<table class="widefat striped" style="max-width: 960px;">';
+        echo '<thead><tr>';
+        echo '<th>' . __('Name', 'wp-mcp') . '</th>';
+        echo '<th>' . __('MCP Endpoint URL', 'wp-mcp') . '</th>';
+        echo '<th>' . __('Authentication', 'wp-mcp') . '</th>';
+        echo '<th>' . __('Username', 'wp-mcp') . '</th>';
+        echo '<th>' . __('Application Password or Token', 'wp-mcp') . '</th>';
+        echo '</tr></thead><tbody>';
+        foreach (array_values($sites) as $index => $site) {
+            $field = 'wp_mcp_remote_sites[' . $index . ']';
+            echo '<tr>';
+            echo '<td><input type="hidden" name="' . esc_attr($field . '[id]') . '" value="' . esc_attr($site['id']) . '" />';
+            echo '<input type="text" name="' . esc_attr($field . '[name]') . '" value="' . esc_attr($site['name']) . '" class="regular-text" style="width: 100%;" /></td>';
+            echo '<td><input type="url" name="' . esc_attr($field . '[url]') . '" value="' . esc_attr($site['url']) . '" class="regular-text" style="width: 100%;" placeholder="https://example.com/wp-json/mcp/mcp-adapter-default-server" /></td>';
+            echo '<td><select name="' . esc_attr($field . '[auth_type]') . '">';
+            echo '<option value="application_password" ' . selected($site['auth_type'], 'application_password', false) . '>' . __('Application Password', 'wp-mcp') . '</option>';
+            echo '<option value="bearer" ' . selected($site['auth_type'], 'bearer', false) . '>' . __('OAuth Bearer Token', 'wp-mcp') . '</option>';
+            echo '</select></td>';
+            echo '<td><input type="text" name="' . esc_attr($field . '[username]') . '" value="' . esc_attr($site['username']) . '" autocomplete="off" style="width: 100%;" /></td>';
+            // Secrets are never printed; an empty field keeps the stored one
+            $placeholder = !empty($site['secret']) ? __('Saved (leave empty to keep)', 'wp-mcp') : '';
+            echo '<td><input type="password" name="' . esc_attr($field . '[secret]') . '" value="" placeholder="' . esc_attr($placeholder) . '" autocomplete="new-password" style="width: 100%;" /></td>';
+            echo '</tr>';
+        }
+        echo '</tbody></table>';
+        echo '<p class="description">' . __('Other WordPress sites running the MCP adapter that the chat can switch to. Create an Application Password under Users → Profile on the remote site, or use an OAuth bearer token (the username is then ignored). Credentials stay on this server: the chat reaches remote sites through this plugin\'s REST API. Clear the URL to remove a site.', 'wp-mcp') . '</p>';
+    }
+    
     /**
      * Render chat history field
      */
@@ -388,6 +645,368 @@ class Admin {
         echo '<p class="description">' . __('Maximum number of messages to keep per chat session.', 'wp-mcp') . '</p>';
     }
     
+    /**
+     * Render max agent iterations field
+     */
+    public function render_agent_max_iterations_field() {
+        $value = get_option('wp_mcp_agent_max_iterations', 8);
+        echo '<input type="number" name="wp_mcp_agent_max_iterations" value="' . esc_attr($value) . '" min="1" max="50" class="small-text" />';
+        echo '<p class="description">' . __('Maximum number of model requests the assistant may make while answering a single message.', 'wp-mcp') . '</p>';
+    }
+    
+    /**
+     * Render max agent tool calls field
+     */
+    public function render_agent_max_tool_calls_field() {
+        $value = get_option('wp_mcp_agent_max_tool_calls', 20);
+        echo '<input type="number" name="wp_mcp_agent_max_tool_calls" value="' . esc_attr($value) . '" min="1" max="100" class="small-text" />';
+        echo '<p class="description">' . __('Maximum number of MCP tool calls the assistant may run while answering a single message.', 'wp-mcp') . '</p>';
+    }
+    
+    /**
+     * Render max parallel tool calls field
+     */
+    public function render_agent_max_parallel_tool_calls_field() {
+        $value = get_option('wp_mcp_agent_max_parallel_tool_calls', 4);
+        echo '<input type="number" name="wp_mcp_agent_max_parallel_tool_calls" value="' . esc_attr($value) . '" min="1" max="16" class="small-text" />';
+        echo '<p class="description">' . __('How many read-only tool calls may run at the same time. Tool calls that change data always run one at a time.', 'wp-mcp') . '</p>';
+    }
+    
+    /**
+     * Render tool approval policy field
+     */
+    public function render_tool_approval_policy_field() {
+        $policy = (array) get_option('wp_mcp_tool_approval_policy', array());
+        $lines = array();
+        foreach ($policy as $tool => $rule) {
+            $lines[] = $tool . ': ' . $rule;
+        }
+        echo '<textarea name="wp_mcp_tool_approval_policy" rows="5" class="large-text code">' . esc_textarea(implode("\n", $lines)) . '</textarea>';
+        echo '<p class="description">' . __('One rule per line as "tool-name: ask" or "tool-name: allow". Tools without a rule ask for confirmation unless the MCP server marks them read-only.', 'wp-mcp') . '</p>';
+    }
+    
+    /**
+     * Render system prompt template field
+     */
+    public function render_system_prompt_field() {
+        $value = get_option('wp_mcp_system_prompt', '');
+        echo '<textarea name="wp_mcp_system_prompt" rows="10" class="large-text code">' . esc_textarea($value) . '</textarea>';
+        echo '<p class="description">' . __('Instructions sent to the AI at the start of every conversation. Leave empty to use the built-in WordPress prompt. Available placeholders: {site_name}, {site_url}, {site_description}, {wordpress_version}, {theme}, {user_name}, {user_role}, {tool_list}, {date}.', 'wp-mcp') . '</p>';
+    }
+    
+    /**
+     * Render model price table field
+     */
+    public function render_model_prices_field() {
+        $lines = array();
+        foreach (Usage::get_instance()->get_model_prices() as $price) {
+            $lines[] = $price['model'] . ' | ' . $price['input'] . ' | ' . $price['output'];
+        }
+        echo '<textarea name="wp_mcp_model_prices" rows="8" class="large-text code">' . esc_textarea(implode("\n", $lines)) . '</textarea>';
+        echo '<p class="description">' . __('One model per line as "model | input price | output price", in USD per million tokens. A price applies to every model whose name starts with it, so "gpt-4o" also covers "gpt-4o-2024-08-06". Used for the cost estimates on the Usage page and for budgets.', 'wp-mcp') . '</p>';
+    }
+    
+    /**
+     * Render monthly budget field
+     */
+    public function render_monthly_budget_field() {
+        $value = get_option('wp_mcp_monthly_budget', 0);
+        echo '<input type="number" name="wp_mcp_monthly_budget" value="' . esc_attr($value) . '" min="0" step="0.01" class="small-text" /> USD';
+        echo '<p class="description">' . __('Estimated AI cost each user may spend per calendar month (UTC). Requests are refused once it is reached. Set to 0 for no limit.', 'wp-mcp') . '</p>';
+    }
+    
+    /**
+     * Render usage page
+     */
+    public function render_usage_page() {
+        $months = array();
+        for ($i = 0; $i < 12; $i++) {
+            $months[] = gmdate('Y-m', strtotime(gmdate('Y-m-01') . " -$i months"));
+        }
+        // phpcs:ignore WordPress.Security.NonceVerification.Recommended
+        $month = isset($_GET['month']) && in_array($_GET['month'], $months, true) ? $_GET['month'] : $months[0];
+        
+        $usage = Usage::get_instance();
+        $rows = $usage->get_usage($month);
+        
+        // Rows are per user and model; the tables show totals of each
+        $users = array();
+        $models = array();
+        foreach ($rows as $row) {
+            $users[$row['user_id']][] = $row;
+            $models[$row['provider'] . '|' . $row['model']][] = $row;
+        }
+        ?>
+        <div class="wrap">
+            <h1><?php echo esc_html(get_admin_page_title()); ?></h1>
+            <form method="get">
+                <input type="hidden" name="page" value="wp-mcp-usage" />
+                <select name="month" onchange="this.form.submit()">
+                    <?php foreach ($months as $option) : ?>
+                        <option value="<?php echo esc_attr($option); ?>" <?php selected($option, $month); ?>><?php echo esc_html($option); ?></option>
+                    <?php endforeach; ?>
+                </select>
+            </form>
+            <p class="description"><?php esc_html_e('Tokens of every AI request made through the plugin. Costs are estimates from the price table in settings; models without a price show no cost.', 'wp-mcp'); ?></p>
+            
+            <h2><?php esc_html_e('By User', 'wp-mcp'); ?></h2>
+            <table class="widefat striped">
+                <thead>
+                    <tr>
+                        <th><?php esc_html_e('User', 'wp-mcp'); ?></th>
+                        <th><?php esc_html_e('Requests', 'wp-mcp'); ?></th>
+                        <th><?php esc_html_e('Input Tokens', 'wp-mcp'); ?></th>
+                        <th><?php esc_html_e('Output Tokens', 'wp-mcp'); ?></th>
+                        <th><?php esc_html_e('Estimated Cost', 'wp-mcp'); ?></th>
+                        <th><?php esc_html_e('Budget', 'wp-mcp'); ?></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    <?php if (empty($users)) : ?>
+                        <tr><td colspan="6"><?php esc_html_e('No AI requests this month.', 'wp-mcp'); ?></td></tr>
+                    <?php endif; ?>
+                    <?php foreach ($users as $user_id => $user_rows) : ?>
+                        <?php
+                        $total = $this->sum_usage($user_rows);
+                        $user = get_userdata($user_id);
+                        $budget = $usage->get_monthly_budget($user_id);
+                        ?>
+                        <tr>
+                            <td><?php /* translators: %d: user ID */ echo esc_html($user ? $user->display_name : sprintf(__('Deleted user #%d', 'wp-mcp'), $user_id)); ?></td>
+                            <?php $this->render_usage_cells($total); ?>
+                            <td>
+                                <?php
+                                echo $budget > 0
+                                    /* translators: 1: percentage of the budget used, 2: monthly budget in USD */
+                                    ? esc_html(sprintf(__('%1$d%% of $%2$s', 'wp-mcp'), round(($total['cost'] ?? 0) / $budget * 100), number_format_i18n($budget, 2)))
+                                    : esc_html__('No limit', 'wp-mcp');
+                                ?>
+                            </td>
+                        </tr>
+                    <?php endforeach; ?>
+                </tbody>
+            </table>
+            
+            <h2><?php esc_html_e('By Model', 'wp-mcp'); ?></h2>
+            <table class="widefat striped">
+                <thead>
+                    <tr>
+                        <th><?php esc_html_e('Provider', 'wp-mcp'); ?></th>
+                        <th><?php esc_html_e('Model', 'wp-mcp'); ?></th>
+                        <th><?php esc_html_e('Requests', 'wp-mcp'); ?></th>
+                        <th><?php esc_html_e('Input Tokens', 'wp-mcp'); ?></th>
+                        <th><?php esc_html_e('Output Tokens', 'wp-mcp'); ?></th>
+                        <th><?php esc_html_e('Estimated Cost', 'wp-mcp'); ?></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    <?php if (empty($models)) : ?>
+                        <tr><td colspan="6"><?php esc_html_e('No AI requests this month.', 'wp-mcp'); ?></td></tr>
+                    <?php endif; ?>
+                    <?php foreach ($models as $key => $model_rows) : ?>
+                        <?php
+                        $total = $this->sum_usage($model_rows);
+                        list($provider, $model) = explode('|', $key, 2);
+                        ?>
+                        <tr>
+                            <td><?php echo esc_html($provider); ?></td>
+                            <td><code><?php echo esc_html($model); ?></code></td>
+                            <?php $this->render_usage_cells($total); ?>
+                        </tr>
+                    <?php endforeach; ?>
+                </tbody>
+            </table>
+        </div>
+        <?php
+    }
+    
+    /**
+     * Add up usage rows; the cost is null when none of them has a price
+     */
+    private function sum_usage($rows) {
+        $costs = array_filter(array_column($rows, 'cost'), 'is_float');
+        return array(
+            'requests' => array_sum(array_column($rows, 'requests')),
+            'prompt_tokens' => array_sum(array_column($rows, 'prompt_tokens')),
+            'completion_tokens' => array_sum(array_column($rows, 'completion_tokens')),
+            'cost' => empty($costs) ? null : array_sum($costs),
+        );
+    }
+    
+    /**
+     * Render the request, token and cost cells of a usage table row
+     */
+    private function render_usage_cells($total) {
+        echo '<td>' . esc_html(number_format_i18n($total['requests'])) . '</td>';
+        echo '<td>' . esc_html(number_format_i18n($total['prompt_tokens'])) . '</td>';
+        echo '<td>' . esc_html(number_format_i18n($total['completion_tokens'])) . '</td>';
+        echo '<td>' . ($total['cost'] === null ? '&mdash;' : esc_html('$' . number_format_i18n($total['cost'], 2))) . '</td>';
+    }
+    
+    /**
+     * Sanitize tool approval policy textarea into a tool => rule map
+     */
+    public function sanitize_tool_approval_policy($value) {
+        // Rules saved as an array are checked line by line like the textarea
+        if (is_array($value)) {
+            $lines = array();
+            foreach ($value as $tool => $rule) {
+                if (is_string($rule)) {
+                    $lines[] = $tool . ': ' . $rule;
+                }
+            }
+            $value = implode("\n", $lines);
+        }
+        
+        $policy = array();
+        foreach (preg_split('/\r\n|\r|\n/', (string) $value) as $line) {
+            $parts = array_map('trim', explode(':', $line, 2));
+            if (count($parts) !== 2 || $parts[0] === '') {
+                continue;
+            }
+            $rule = strtolower($parts[1]);
+            if (in_array($rule, array('ask', 'allow'), true)) {
+                $policy[sanitize_text_field($parts[0])] = $rule;
+            }
+        }
+        return $policy;
+    }
+    
+    /**
+     * Sanitize MCP servers textarea into a list of id, name and URL entries
+     */
+    public function sanitize_mcp_servers($value) {
+        // Servers saved as an array are checked line by line like the textarea
+        if (is_array($value)) {
+            $lines = array();
+            foreach ($value as $server) {
+                if (is_array($server) && is_string($server['name'] ?? null) && is_string($server['url'] ?? null)) {
+                    $lines[] = $server['name'] . ' | ' . $server['url'];
+                }
+            }
+            $value = implode("\n", $lines);
+        }
+        
+        $servers = array();
+        // The site's own server is always "wordpress"
+        $ids = array('wordpress');
+        foreach (preg_split('/\r\n|\r|\n/', (string) $value) as $line) {
+            $parts = array_map('trim', explode('|', $line, 2));
+            if (count($parts) !== 2 || $parts[0] === '') {
+                continue;
+            }
+            $url = esc_url_raw($parts[1], array('http', 'https'));
+            if ($url === '') {
+                continue;
+            }
+            
+            $base = sanitize_title($parts[0]) ?: 'server';
+            $id = $base;
+            for ($suffix = 2; in_array($id, $ids, true); $suffix++) {
+                $id = $base . '-' . $suffix;
+            }
+            $ids[] = $id;
+            
+            $servers[] = array(
+                'id' => $id,
+                'name' => sanitize_text_field($parts[0]),
+                'url' => $url,
+            );
+        }
+        return $servers;
+    }
+    
+    /**
+     * Sanitize remote site rows, keeping stored secrets that were left empty
+     */
+    public function sanitize_remote_sites($value) {
+        $existing = array();
+        foreach ((array) get_option('wp_mcp_remote_sites', array()) as $site) {
+            $existing[$site['id']] = $site;
+        }
+        
+        $sites = array();
+        // "local" is the site switcher's value for this site
+        $ids = array('local');
+        foreach ((array) $value as $row) {
+            if (!is_array($row)) {
+                continue;
+            }
+            $url = esc_url_raw(trim($row['url'] ?? ''), array('http', 'https'));
+            if ($url === '') {
+                continue;
+            }
+            $name = sanitize_text_field($row['name'] ?? '') ?: wp_parse_url($url, PHP_URL_HOST);
+            
+            // Keep the id of an existing site so its stored secret can be found
+            $id = sanitize_key($row['id'] ?? '');
+            // A site saved as "local" before it was reserved gets a new id but keeps its secret
+            $stored = $id === 'local' ? ($existing['local'] ?? null) : null;
+            if ($id === '' || in_array($id, $ids, true)) {
+                $base = sanitize_title($name) ?: 'site';
+                $id = $base;
+                for ($suffix = 2; in_array($id, $ids, true) || isset($existing[$id]); $suffix++) {
+                    $id = $base . '-' . $suffix;
+                }
+            }
+            $ids[] = $id;
+            
+            $stored = $stored ?? ($existing[$id] ?? null);
+            
+            $secret = trim((string) ($row['secret'] ?? ''));
+            if ($secret === '' && $stored) {
+                $secret = $stored['secret'];
+            }
+            
+            $sites[] = array(
+                'id' => $id,
+                'name' => $name,
+                'url' => $url,
+                'auth_type' => ($row['auth_type'] ?? '') === 'bearer' ? 'bearer' : 'application_password',
+                'username' => sanitize_user($row['username'] ?? ''),
+                'secret' => sanitize_text_field($secret),
+            );
+        }
+        return $sites;
+    }
+    
+    /**
+     * Sanitize model prices textarea into a list of model, input and output prices
+     */
+    public function sanitize_model_prices($value) {
+        // Prices saved as an array are checked line by line like the textarea
+        if (is_array($value)) {
+            $lines = array();
+            foreach ($value as $price) {
+                if (is_array($price) && is_scalar($price['model'] ?? null) && is_scalar($price['input'] ?? null) && is_scalar($price['output'] ?? null)) {
+                    $lines[] = $price['model'] . ' | ' . $price['input'] . ' | ' . $price['output'];
+                }
+            }
+            $value = implode("\n", $lines);
+        }
+        
+        $prices = array();
+        foreach (preg_split('/\r\n|\r|\n/', (string) $value) as $line) {
+            $parts = array_map('trim', explode('|', $line));
+            if (count($parts) !== 3 || $parts[0] === '' || !is_numeric($parts[1]) || !is_numeric($parts[2])) {
+                continue;
+            }
+            $prices[] = array(
+                'model' => sanitize_text_field($parts[0]),
+                'input' => max(0, (float) $parts[1]),
+                'output' => max(0, (float) $parts[2]),
+            );
+        }
+        return $prices;
+    }
+    
+    /**
+     * Sanitize a budget amount in USD
+     */
+    public function sanitize_budget($value) {
+        return max(0, round((float) $value, 2));
+    }
+    
     /**
      * Sanitize checkbox value
      */
@@ -17,6 +17,13 @@ if ( ! defined( 'ABSPATH' ) ) {
  */
 class Plugin {
 
+	/**
+	 * Database schema version, bumped whenever create_tables() changes.
+	 *
+	 * @var string
+	 */
+	const DB_VERSION = '1.3.0';
+
 	/**
 	 * Singleton instance.
 	 *
@@ -62,6 +69,11 @@ class Plugin {
 		// Load textdomain for translations.
 		load_plugin_textdomain( 'wp-mcp', false, dirname( plugin_basename( WP_MCP_PLUGIN_FILE ) ) . '/languages' );
 
+		// Upgrade database tables when the schema changed since activation.
+		if ( get_option( 'wp_mcp_db_version' ) !== self::DB_VERSION ) {
+			$this->create_tables();
+		}
+
 		// Initialize plugin components that need to hook into WordPress APIs.
 		Abilities::get_instance();
 
@@ -157,11 +169,14 @@ class Plugin {
 
 		$charset_collate = $wpdb->get_charset_collate();
 		$table_name      = $wpdb->prefix . 'mcp_chat_sessions';
+		$usage_table     = $wpdb->prefix . 'mcp_usage';
 
 		// Session ID is stored as VARCHAR (UUID format).
 		$sql = "CREATE TABLE $table_name (
 			id varchar(36) NOT NULL,
 			user_id bigint(20) unsigned NOT NULL,
+			title varchar(255) NOT NULL DEFAULT '',
+			settings longtext NULL,
 			session_data longtext NOT NULL,
 			created_at datetime DEFAULT CURRENT_TIMESTAMP,
 			updated_at datetime DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
@@ -171,8 +186,22 @@ class Plugin {
 			KEY updated_at (updated_at)
 		) $charset_collate;";
 
+		// Token usage per user, month and model, recorded by the AI proxy.
+		$usage_sql = "CREATE TABLE $usage_table (
+			user_id bigint(20) unsigned NOT NULL,
+			month char(7) NOT NULL,
+			provider varchar(20) NOT NULL,
+			model varchar(191) NOT NULL,
+			requests int(10) unsigned NOT NULL DEFAULT 0,
+			prompt_tokens bigint(20) unsigned NOT NULL DEFAULT 0,
+			completion_tokens bigint(20) unsigned NOT NULL DEFAULT 0,
+			updated_at datetime DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+			PRIMARY KEY (user_id, month, provider, model),
+			KEY month (month)
+		) $charset_collate;";
+
 		require_once ABSPATH . 'wp-admin/includes/upgrade.php';
-		dbDelta( $sql );
+		dbDelta( array( $sql, $usage_sql ) );
 
 		// Schedule cleanup event if not already scheduled.
 		if ( ! wp_next_scheduled( 'wp_mcp_cleanup_sessions' ) ) {
@@ -180,7 +209,7 @@ class Plugin {
 		}
 
 		// Update version option.
-		update_option( 'wp_mcp_db_version', WP_MCP_VERSION );
+		update_option( 'wp_mcp_db_version', self::DB_VERSION );
 	}
 
 	/**
@@ -211,11 +240,24 @@ class Plugin {
 	 */
 	private function set_default_options(): void {
 		$default_options = array(
-			'openai_api_key'           => '',
-			'cloudflare_gateway_url'   => '',
-			'cloudflare_token'         => '',
-			'chat_history_enabled'     => true,
-			'max_messages_per_session' => 100,
+			'openai_api_key'                => '',
+			'cloudflare_gateway_url'        => '',
+			'cloudflare_token'              => '',
+			'anthropic_api_key'             => '',
+			'gemini_api_key'                => '',
+			'local_llm_url'                 => '',
+			'local_llm_api_key'             => '',
+			'mcp_servers'                   => array(),
+			'remote_sites'                  => array(),
+			'chat_history_enabled'          => true,
+			'max_messages_per_session'      => 100,
+			'agent_max_iterations'          => 8,
+			'agent_max_tool_calls'          => 20,
+			'agent_max_parallel_tool_calls' => 4,
+			'tool_approval_policy'          => array(),
+			'system_prompt'                 => '',
+			'model_prices'                  => Usage::DEFAULT_MODEL_PRICES,
+			'monthly_budget'                => 0,
 		);
 
 		foreach ( $default_options as $option => $value ) {
@@ -17,6 +17,11 @@ if ( ! defined( 'ABSPATH' ) ) {
  */
 class RestApi {
 
+	/**
+	 * AI providers the proxy can relay to.
+	 */
+	const AI_PROVIDERS = array( 'openai', 'anthropic', 'gemini', 'local' );
+
 	private static $instance = null;
 
 	/**
@@ -58,22 +63,62 @@ class RestApi {
 				'callback'            => array( $this, 'handle_chat_message' ),
 				'permission_callback' => array( $this, 'check_chat_permissions' ),
 				'args'                => array(
-					'message'    => array(
+					'message'        => array(
 						'required'          => true,
 						'type'              => 'string',
-						'sanitize_callback' => 'sanitize_text_field',
+						'sanitize_callback' => 'sanitize_textarea_field',
 					),
-					'session_id' => array(
+					'session_id'     => array(
 						'required'          => false,
 						'type'              => 'string',
 						'sanitize_callback' => 'sanitize_text_field',
 					),
-					'role'       => array(
+					'role'           => array(
 						'required'          => false,
 						'type'              => 'string',
 						'default'           => 'user',
 						'sanitize_callback' => 'sanitize_text_field',
 					),
+					'schema_version' => array(
+						'required' => false,
+						'type'     => 'integer',
+						'default'  => 1,
+					),
+					'id'             => array(
+						'required'          => false,
+						'type'              => 'string',
+						'sanitize_callback' => 'sanitize_text_field',
+					),
+					'timestamp'      => array(
+						'required'          => false,
+						'type'              => 'string',
+						'sanitize_callback' => 'sanitize_text_field',
+					),
+					'tool_calls'     => array(
+						'required' => false,
+						'type'     => 'array',
+					),
+					'tool_results'   => array(
+						'required' => false,
+						'type'     => 'array',
+					),
+					'model'          => array(
+						'required'          => false,
+						'type'              => 'string',
+						'sanitize_callback' => 'sanitize_text_field',
+					),
+					'usage'          => array(
+						'required' => false,
+						'type'     => 'object',
+					),
+					'stopped'        => array(
+						'required' => false,
+						'type'     => 'boolean',
+					),
+					'attachments'    => array(
+						'required' => false,
+						'type'     => 'array',
+					),
 				),
 			)
 		);
@@ -103,7 +148,101 @@ class RestApi {
 			)
 		);
 
-		// AI proxy endpoint for Cloudflare AI Gateway
+		// List chat sessions
+		register_rest_route(
+			$namespace,
+			'/chat/sessions',
+			array(
+				'methods'             => 'GET',
+				'callback'            => array( $this, 'list_chat_sessions' ),
+				'permission_callback' => array( $this, 'check_chat_permissions' ),
+				'args'                => array(
+					'search' => array(
+						'required'          => false,
+						'type'              => 'string',
+						'sanitize_callback' => 'sanitize_text_field',
+					),
+					'limit'  => array(
+						'required' => false,
+						'type'     => 'integer',
+						'default'  => 50,
+						'minimum'  => 1,
+						'maximum'  => 200,
+					),
+				),
+			)
+		);
+
+		// Get, update or delete a chat session
+		register_rest_route(
+			$namespace,
+			'/chat/sessions/(?P<session_id>[a-zA-Z0-9-]+)',
+			array(
+				array(
+					'methods'             => 'GET',
+					'callback'            => array( $this, 'get_chat_session' ),
+					'permission_callback' => array( $this, 'check_chat_permissions' ),
+				),
+				array(
+					'methods'             => 'PATCH',
+					'callback'            => array( $this, 'update_chat_session' ),
+					'permission_callback' => array( $this, 'check_chat_permissions' ),
+					'args'                => array(
+						'title'    => array(
+							'required'          => false,
+							'type'              => 'string',
+							'sanitize_callback' => 'sanitize_text_field',
+						),
+						'settings' => array(
+							'required' => false,
+							'type'     => 'object',
+						),
+					),
+				),
+				array(
+					'methods'             => 'DELETE',
+					'callback'            => array( $this, 'delete_chat_session' ),
+					'permission_callback' => array( $this, 'check_chat_permissions' ),
+				),
+			)
+		);
+
+		$chat_completion_args = array(
+			'model'          => array(
+				'required' => true,
+				'type'     => 'string',
+			),
+			'messages'       => array(
+				'required' => true,
+				'type'     => 'array',
+			),
+			'tools'          => array(
+				'required' => false,
+				'type'     => 'array',
+			),
+			'tool_choice'    => array(
+				'required' => false,
+			),
+			'stream'         => array(
+				'required' => false,
+				'type'     => 'boolean',
+				'default'  => false,
+			),
+			'stream_options' => array(
+				'required' => false,
+				'type'     => 'object',
+			),
+			'max_tokens'     => array(
+				'required' => false,
+				'type'     => 'integer',
+			),
+			'temperature'    => array(
+				'required' => false,
+				'type'     => 'number',
+			),
+		);
+
+		// AI proxy endpoint for OpenAI or Cloudflare AI Gateway
 		register_rest_route(
 			$namespace,
 			'/ai/chat/completions',
@@ -111,34 +250,120 @@ class RestApi {
 				'methods'             => 'POST',
 				'callback'            => array( $this, 'proxy_ai_request' ),
 				'permission_callback' => array( $this, 'check_ai_proxy_permissions' ),
+				'args'                => $chat_completion_args,
+			)
+		);
+
+		// OpenAI-compatible local server, e.g. Ollama
+		register_rest_route(
+			$namespace,
+			'/ai/(?P<provider>local)/chat/completions',
+			array(
+				'methods'             => 'POST',
+				'callback'            => array( $this, 'proxy_ai_request' ),
+				'permission_callback' => array( $this, 'check_ai_proxy_permissions' ),
+				'args'                => $chat_completion_args,
+			)
+		);
+
+		// AI model list proxy
+		register_rest_route(
+			$namespace,
+			'/ai/models',
+			array(
+				'methods'             => 'GET',
+				'callback'            => array( $this, 'proxy_ai_models' ),
+				'permission_callback' => array( $this, 'check_ai_proxy_permissions' ),
+			)
+		);
+
+		register_rest_route(
+			$namespace,
+			'/ai/(?P<provider>local|anthropic|gemini)/models',
+			array(
+				'methods'             => 'GET',
+				'callback'            => array( $this, 'proxy_ai_models' ),
+				'permission_callback' => array( $this, 'check_ai_proxy_permissions' ),
+			)
+		);
+
+		// Anthropic Messages API proxy
+		register_rest_route(
+			$namespace,
+			'/ai/anthropic/messages',
+			array(
+				'methods'             => 'POST',
+				'callback'            => array( $this, 'proxy_anthropic_request' ),
+				'permission_callback' => array( $this, 'check_ai_proxy_permissions' ),
 				'args'                => array(
-					'model'       => array(
+					'model'    => array(
 						'required' => true,
 						'type'     => 'string',
 					),
-					'messages'    => array(
+					'messages' => array(
 						'required' => true,
 						'type'     => 'array',
 					),
-					'tools'       => array(
+					'stream'   => array(
 						'required' => false,
-						'type'     => 'array',
+						'type'     => 'boolean',
+						'default'  => false,
 					),
-					'tool_choice' => array(
-						'required' => false,
+				),
+			)
+		);
+
+		// Gemini generateContent proxy
+		register_rest_route(
+			$namespace,
+			'/ai/gemini/generate',
+			array(
+				'methods'             => 'POST',
+				'callback'            => array( $this, 'proxy_gemini_request' ),
+				'permission_callback' => array( $this, 'check_ai_proxy_permissions' ),
+				'args'                => array(
+					'model'    => array(
+						'required' => true,
+						'type'     => 'string',
+						'pattern'  => '^[a-zA-Z0-9._-]+$',
+					),
+					'contents' => array(
+						'required' => true,
+						'type'     => 'array',
 					),
-					'stream'      => array(
+					'stream'   => array(
 						'required' => false,
 						'type'     => 'boolean',
 						'default'  => false,
 					),
-					'max_tokens'  => array(
-						'required' => false,
-						'type'     => 'integer',
-					),
-					'temperature' => array(
+				),
+			)
+		);
+
+		// MCP relay to remote WordPress sites, which adds their stored credentials
+		register_rest_route(
+			$namespace,
+			'/mcp-proxy/(?P<site>[a-z0-9_-]+)',
+			array(
+				'methods'             => array( 'GET', 'POST', 'DELETE' ),
+				'callback'            => array( $this, 'proxy_mcp_request' ),
+				'permission_callback' => array( $this, 'check_admin_permissions' ),
+			)
+		);
+
+		// Token usage and budget of the current user
+		register_rest_route(
+			$namespace,
+			'/usage',
+			array(
+				'methods'             => 'GET',
+				'callback'            => array( $this, 'get_usage' ),
+				'permission_callback' => array( $this, 'check_ai_proxy_permissions' ),
+				'args'                => array(
+					'month' => array(
 						'required' => false,
-						'type'     => 'number',
+						'type'     => 'string',
+						'pattern'  => '^\d{4}-\d{2}$',
 					),
 				),
 			)
@@ -252,7 +477,7 @@ class RestApi {
 			}
 
 			// Save message to history
-			$this->save_message_to_history( $session_id, $message, $role );
+			$this->save_message_to_history( $session_id, $message, $role, $this->get_structured_message_fields( $request ) );
 
 			return rest_ensure_response(
 				array(
@@ -336,118 +561,798 @@ class RestApi {
 	}
 
 	/**
-	 * Proxy AI requests to OpenAI or Cloudflare AI Gateway
+	 * List the current user's chat sessions, most recently updated first.
+	 *
+	 * @param \WP_REST_Request $request The REST request object.
+	 * @return \WP_REST_Response The response.
 	 */
-	public function proxy_ai_request( $request ) {
-		// Get configuration options
-		$cloudflare_token = get_option( 'wp_mcp_cloudflare_token' );
-		$openai_key       = get_option( 'wp_mcp_openai_api_key' );
-		$gateway_url      = get_option( 'wp_mcp_cloudflare_gateway_url' );
-
-		// Determine which provider to use and set up request parameters
-		$model = $request->get_param( 'model' );
+	public function list_chat_sessions( $request ) {
+		global $wpdb;
+		$search  = $request->get_param( 'search' );
+		$limit   = (int) $request->get_param( 'limit' );
+		$user_id = get_current_user_id();
 
-		if ( ! empty( $cloudflare_token ) && ! empty( $gateway_url ) ) {
-			// Use Cloudflare AI Gateway
-			$api_url = $gateway_url . '/chat/completions';
-			$headers = array(
-				'cf-aig-authorization' => 'Bearer ' . $cloudflare_token,
-				'Content-Type'         => 'application/json',
-			);
-		} elseif ( ! empty( $openai_key ) ) {
-			// Use direct OpenAI API
-			$api_url = 'https://api.openai.com/v1/chat/completions';
-			$headers = array(
-				'Authorization' => 'Bearer ' . $openai_key,
-				'Content-Type'  => 'application/json',
+		if ( ! empty( $search ) ) {
+			$like = '%' . $wpdb->esc_like( $search ) . '%';
+			// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery, WordPress.DB.DirectDatabaseQuery.NoCaching
+			$rows = $wpdb->get_results(
+				$wpdb->prepare(
+					'SELECT id, title, settings, session_data, created_at, updated_at FROM ' . $wpdb->prefix . 'mcp_chat_sessions WHERE user_id = %d AND ( title LIKE %s OR session_data LIKE %s ) ORDER BY updated_at DESC LIMIT %d',
+					$user_id,
+					$like,
+					$like,
+					$limit
+				)
 			);
 		} else {
-			return new \WP_Error(
-				'missing_ai_config',
-				__( 'AI configuration is missing. Please configure an OpenAI API key or Cloudflare AI Gateway in settings.', 'wp-mcp' ),
-				array( 'status' => 400 )
+			// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery, WordPress.DB.DirectDatabaseQuery.NoCaching
+			$rows = $wpdb->get_results(
+				$wpdb->prepare(
+					'SELECT id, title, settings, session_data, created_at, updated_at FROM ' . $wpdb->prefix . 'mcp_chat_sessions WHERE user_id = %d ORDER BY updated_at DESC LIMIT %d',
+					$user_id,
+					$limit
+				)
 			);
 		}
 
-		// Prepare the request body
-		$body = array(
-			'model'    => $model,
-			'messages' => $request->get_param( 'messages' ),
+		$sessions = array_map( array( $this, 'format_session_row' ), (array) $rows );
+
+		return rest_ensure_response(
+			array(
+				'success'  => true,
+				'sessions' => $sessions,
+			)
 		);
+	}
 
-		// Add optional parameters if provided
-		$tools = $request->get_param( 'tools' );
-		if ( ! empty( $tools ) ) {
-			$body['tools'] = $tools;
-		}
+	/**
+	 * Get a single chat session (without its messages).
+	 *
+	 * @param \WP_REST_Request $request The REST request object.
+	 * @return \WP_REST_Response|\WP_Error The response or error.
+	 */
+	public function get_chat_session( $request ) {
+		global $wpdb;
+		$session_id = $request->get_param( 'session_id' );
 
-		$tool_choice = $request->get_param( 'tool_choice' );
-		if ( null !== $tool_choice ) {
-			$body['tool_choice'] = $tool_choice;
+		// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery, WordPress.DB.DirectDatabaseQuery.NoCaching
+		$row = $wpdb->get_row(
+			$wpdb->prepare(
+				'SELECT id, title, settings, session_data, created_at, updated_at FROM ' . $wpdb->prefix . 'mcp_chat_sessions WHERE id = %s AND user_id = %d',
+				$session_id,
+				get_current_user_id()
+			)
+		);
+
+		if ( ! $row ) {
+			return new \WP_Error( 'session_not_found', __( 'Chat session not found.', 'wp-mcp' ), array( 'status' => 404 ) );
 		}
 
-		$stream = $request->get_param( 'stream' );
-		if ( null !== $stream ) {
-			$body['stream'] = $stream;
+		return rest_ensure_response(
+			array(
+				'success' => true,
+				'session' => $this->format_session_row( $row ),
+			)
+		);
+	}
+
+	/**
+	 * Update the title and/or generation settings of a chat session.
+	 *
+	 * The session is created if it does not exist yet, so settings chosen
+	 * before the first message are kept.
+	 *
+	 * @param \WP_REST_Request $request The REST request object.
+	 * @return \WP_REST_Response|\WP_Error The response or error.
+	 */
+	public function update_chat_session( $request ) {
+		global $wpdb;
+		$session_id = $request->get_param( 'session_id' );
+		$user_id    = get_current_user_id();
+		$row        = array();
+
+		$title = $request->get_param( 'title' );
+		if ( null !== $title ) {
+			$row['title'] = mb_substr( $title, 0, 255 );
 		}
 
-		$max_tokens = $request->get_param( 'max_tokens' );
-		if ( null !== $max_tokens ) {
-			$body['max_tokens'] = $max_tokens;
+		$settings = $request->get_param( 'settings' );
+		if ( is_array( $settings ) ) {
+			$row['settings'] = wp_json_encode( $this->sanitize_session_settings( $settings ) );
 		}
 
-		$temperature = $request->get_param( 'temperature' );
-		if ( null !== $temperature ) {
-			$body['temperature'] = $temperature;
+		if ( empty( $row ) ) {
+			return new \WP_Error( 'nothing_to_update', __( 'Provide a title or settings to update.', 'wp-mcp' ), array( 'status' => 400 ) );
 		}
 
-		// Make the request to the AI provider
-		$response = wp_remote_post(
-			$api_url,
-			array(
-				'headers'     => $headers,
-				'body'        => wp_json_encode( $body ),
-				'timeout'     => 30,
-				'data_format' => 'body',
+		// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery, WordPress.DB.DirectDatabaseQuery.NoCaching
+		$owner_id = $wpdb->get_var(
+			$wpdb->prepare(
+				'SELECT user_id FROM ' . $wpdb->prefix . 'mcp_chat_sessions WHERE id = %s',
+				$session_id
 			)
 		);
 
-		if ( is_wp_error( $response ) ) {
-			return new \WP_Error(
-				'ai_request_failed',
-				$response->get_error_message(),
-				array( 'status' => 500 )
-			);
+		if ( null !== $owner_id && (int) $owner_id !== $user_id ) {
+			return new \WP_Error( 'session_not_found', __( 'Chat session not found.', 'wp-mcp' ), array( 'status' => 404 ) );
 		}
 
-		$response_code = wp_remote_retrieve_response_code( $response );
-		$response_body = wp_remote_retrieve_body( $response );
-
-		// Handle streaming responses
-		if ( $stream ) {
-			// For streaming, we need to pass through the stream directly
-			// This is more complex and requires special handling
-			// For now, we'll return an error for streaming requests
-			return new \WP_Error(
-				'streaming_not_supported',
-				__( 'Streaming responses are not yet supported through the proxy.', 'wp-mcp' ),
-				array( 'status' => 501 )
+		if ( null === $owner_id ) {
+			// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery
+			$result = $wpdb->insert(
+				$wpdb->prefix . 'mcp_chat_sessions',
+				array_merge(
+					array(
+						'id'           => $session_id,
+						'user_id'      => $user_id,
+						'session_data' => '[]',
+					),
+					$row
+				)
 			);
-		}
-
-		// Parse the response
-		$data = json_decode( $response_body, true );
-
-		if ( 200 !== $response_code ) {
-			return new \WP_Error(
-				'ai_request_error',
-				$data['error']['message'] ?? __( 'AI request failed', 'wp-mcp' ),
-				array( 'status' => $response_code )
+		} else {
+			// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery, WordPress.DB.DirectDatabaseQuery.NoCaching
+			$result = $wpdb->update(
+				$wpdb->prefix . 'mcp_chat_sessions',
+				$row,
+				array(
+					'id'      => $session_id,
+					'user_id' => $user_id,
+				),
+				null,
+				array( '%s', '%d' )
 			);
 		}
 
-		return rest_ensure_response( $data );
-	}
+		if ( false === $result ) {
+			return new \WP_Error( 'session_update_failed', __( 'Failed to update the chat session.', 'wp-mcp' ), array( 'status' => 500 ) );
+		}
+
+		return rest_ensure_response(
+			array(
+				'success'    => true,
+				'session_id' => $session_id,
+			)
+		);
+	}
+
+	/**
+	 * Sanitize per-conversation generation settings.
+	 *
+	 * @param array $settings Raw settings from the request.
+	 * @return array Sanitized settings; unknown keys are dropped.
+	 */
+	private function sanitize_session_settings( array $settings ): array {
+		$sanitized = array();
+
+		if ( isset( $settings['provider'] ) && in_array( $settings['provider'], self::AI_PROVIDERS, true ) ) {
+			$sanitized['provider'] = $settings['provider'];
+		}
+
+		if ( ! empty( $settings['model'] ) ) {
+			$sanitized['model'] = sanitize_text_field( $settings['model'] );
+		}
+
+		if ( isset( $settings['temperature'] ) && is_numeric( $settings['temperature'] ) ) {
+			$sanitized['temperature'] = max( 0, min( 2, (float) $settings['temperature'] ) );
+		}
+
+		if ( isset( $settings['max_tokens'] ) && is_numeric( $settings['max_tokens'] ) ) {
+			$sanitized['max_tokens'] = max( 1, min( 128000, (int) $settings['max_tokens'] ) );
+		}
+
+		if ( isset( $settings['system_prompt'] ) && '' !== trim( (string) $settings['system_prompt'] ) ) {
+			$sanitized['system_prompt'] = sanitize_textarea_field( $settings['system_prompt'] );
+		}
+
+		return $sanitized;
+	}
+
+	/**
+	 * Format a session row for API responses.
+	 *
+	 * @param object $row Row with id, title, settings, session_data, created_at and updated_at.
+	 * @return array The session summary.
+	 */
+	private function format_session_row( $row ): array {
+		$messages = json_decode( $row->session_data, true );
+		$settings = json_decode( (string) $row->settings, true );
+
+		return array(
+			'id'            => $row->id,
+			'title'         => $row->title,
+			'settings'      => (object) ( is_array( $settings ) ? $settings : array() ),
+			'message_count' => is_array( $messages ) ? count( $messages ) : 0,
+			'created_at'    => mysql_to_rfc3339( $row->created_at ),
+			'updated_at'    => mysql_to_rfc3339( $row->updated_at ),
+		);
+	}
+
+	/**
+	 * Delete a chat session owned by the current user.
+	 *
+	 * @param \WP_REST_Request $request The REST request object.
+	 * @return \WP_REST_Response|\WP_Error The response or error.
+	 */
+	public function delete_chat_session( $request ) {
+		global $wpdb;
+		$session_id = $request->get_param( 'session_id' );
+
+		// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery, WordPress.DB.DirectDatabaseQuery.NoCaching
+		$deleted = $wpdb->delete(
+			$wpdb->prefix . 'mcp_chat_sessions',
+			array(
+				'id'      => $session_id,
+				'user_id' => get_current_user_id(),
+			),
+			array( '%s', '%d' )
+		);
+
+		if ( ! $deleted ) {
+			return new \WP_Error( 'session_not_found', __( 'Chat session not found.', 'wp-mcp' ), array( 'status' => 404 ) );
+		}
+
+		return rest_ensure_response(
+			array(
+				'success'    => true,
+				'session_id' => $session_id,
+			)
+		);
+	}
+
+	/**
+	 * Proxy chat completions to OpenAI, Cloudflare AI Gateway or a local
+	 * OpenAI-compatible server
+	 */
+	public function proxy_ai_request( $request ) {
+		$provider_id = $request->get_param( 'provider' ) ?? 'openai';
+		$provider    = $this->get_ai_provider( '/chat/completions', $provider_id );
+		if ( is_wp_error( $provider ) ) {
+			return $provider;
+		}
+
+		$model = $request->get_param( 'model' );
+
+		// Prepare the request body
+		$body = array(
+			'model'    => $model,
+			'messages' => $request->get_param( 'messages' ),
+		);
+
+		// Add optional parameters if provided
+		$tools = $request->get_param( 'tools' );
+		if ( ! empty( $tools ) ) {
+			$body['tools'] = $tools;
+		}
+
+		$tool_choice = $request->get_param( 'tool_choice' );
+		if ( null !== $tool_choice ) {
+			$body['tool_choice'] = $tool_choice;
+		}
+
+		$stream = $request->get_param( 'stream' );
+		if ( null !== $stream ) {
+			$body['stream'] = $stream;
+		}
+
+		$stream_options = $request->get_param( 'stream_options' );
+		if ( $stream && ! empty( $stream_options ) ) {
+			$body['stream_options'] = $stream_options;
+		}
+
+		$max_tokens = $request->get_param( 'max_tokens' );
+		if ( null !== $max_tokens ) {
+			$body['max_tokens'] = $max_tokens;
+		}
+
+		$temperature = $request->get_param( 'temperature' );
+		if ( null !== $temperature ) {
+			$body['temperature'] = $temperature;
+		}
+
+		return $this->relay_ai_request( $provider_id, (string) $model, $provider['url'], $provider['headers'], $body, (bool) $stream );
+	}
+
+	/**
+	 * Proxy requests to the Anthropic Messages API
+	 *
+	 * @param \WP_REST_Request $request The REST request object.
+	 * @return \WP_REST_Response|\WP_Error|void The upstream response, or nothing once a stream has been relayed.
+	 */
+	public function proxy_anthropic_request( $request ) {
+		$provider = $this->get_ai_provider( '/messages', 'anthropic' );
+		if ( is_wp_error( $provider ) ) {
+			return $provider;
+		}
+
+		$body   = $this->get_passthrough_body( $request, array( 'model', 'messages', 'system', 'tools', 'tool_choice', 'max_tokens', 'temperature', 'stream' ) );
+		$stream = (bool) $request->get_param( 'stream' );
+
+		// max_tokens is required by the Messages API
+		if ( ! isset( $body['max_tokens'] ) ) {
+			$body['max_tokens'] = 2000;
+		}
+
+		return $this->relay_ai_request( 'anthropic', (string) $request->get_param( 'model' ), $provider['url'], $provider['headers'], $body, $stream );
+	}
+
+	/**
+	 * Proxy requests to the Gemini generateContent API
+	 *
+	 * The model is part of the upstream URL, and streaming uses the
+	 * streamGenerateContent method with server-sent events.
+	 *
+	 * @param \WP_REST_Request $request The REST request object.
+	 * @return \WP_REST_Response|\WP_Error|void The upstream response, or nothing once a stream has been relayed.
+	 */
+	public function proxy_gemini_request( $request ) {
+		$stream = (bool) $request->get_param( 'stream' );
+		$method = $stream ? ':streamGenerateContent?alt=sse' : ':generateContent';
+
+		$provider = $this->get_ai_provider( '/models/' . $request->get_param( 'model' ) . $method, 'gemini' );
+		if ( is_wp_error( $provider ) ) {
+			return $provider;
+		}
+
+		$body = $this->get_passthrough_body( $request, array( 'contents', 'systemInstruction', 'tools', 'generationConfig' ) );
+
+		return $this->relay_ai_request( 'gemini', (string) $request->get_param( 'model' ), $provider['url'], $provider['headers'], $body, $stream );
+	}
+
+	/**
+	 * Pick the allowed fields from a JSON request body.
+	 *
+	 * The body is decoded into objects rather than the request's parsed
+	 * arrays, so empty objects such as tool arguments or schema properties
+	 * are sent upstream as {} instead of [].
+	 *
+	 * @param \WP_REST_Request $request The REST request object.
+	 * @param string[]         $fields  Fields to pass through.
+	 * @return array The upstream request body.
+	 */
+	private function get_passthrough_body( $request, array $fields ): array {
+		$json = json_decode( $request->get_body() );
+		$body = array();
+
+		foreach ( $fields as $field ) {
+			if ( is_object( $json ) && isset( $json->$field ) ) {
+				$body[ $field ] = $json->$field;
+			}
+		}
+
+		return $body;
+	}
+
+	/**
+	 * Send a request to an AI provider and return its response, or relay it
+	 * to the browser when streaming.
+	 *
+	 * Requests are refused once the user's monthly budget is used up, and
+	 * the tokens of successful ones are added to the usage ledger.
+	 *
+	 * @param string $provider_id One of self::AI_PROVIDERS.
+	 * @param string $model       The requested model, for the usage ledger.
+	 * @param string $api_url     The upstream URL.
+	 * @param array  $headers     The upstream request headers.
+	 * @param array  $body        The request body.
+	 * @param bool   $stream      Whether to relay the response as server-sent events.
+	 * @return \WP_REST_Response|\WP_Error|void The upstream response, or nothing once a stream has been relayed.
+	 */
+	private function relay_ai_request( string $provider_id, string $model, string $api_url, array $headers, array $body, bool $stream ) {
+		$within_budget = Usage::get_instance()->check_budget( get_current_user_id() );
+		if ( is_wp_error( $within_budget ) ) {
+			return $within_budget;
+		}
+
+		// Streaming responses are relayed to the browser as they arrive
+		if ( $stream ) {
+			return $this->stream_ai_request( $provider_id, $model, $api_url, $headers, $body );
+		}
+
+		// Make the request to the AI provider
+		$response = wp_remote_post(
+			$api_url,
+			array(
+				'headers'     => $headers,
+				'body'        => wp_json_encode( $body ),
+				'timeout'     => 30,
+				'data_format' => 'body',
+			)
+		);
+
+		if ( is_wp_error( $response ) ) {
+			return new \WP_Error(
+				'ai_request_failed',
+				$response->get_error_message(),
+				array( 'status' => 500 )
+			);
+		}
+
+		$response_code = wp_remote_retrieve_response_code( $response );
+		$response_body = wp_remote_retrieve_body( $response );
+
+		// Parse the response
+		$data = json_decode( $response_body, true );
+
+		if ( 200 !== $response_code ) {
+			return new \WP_Error(
+				'ai_request_error',
+				$data['error']['message'] ?? __( 'AI request failed', 'wp-mcp' ),
+				array( 'status' => $response_code )
+			);
+		}
+
+		Usage::get_instance()->record( get_current_user_id(), $provider_id, $model, Usage::extract_usage( $data ) );
+
+		return rest_ensure_response( $data );
+	}
+
+	/**
+	 * Proxy the model list from the requested AI provider
+	 *
+	 * @param \WP_REST_Request $request The REST request object.
+	 * @return \WP_REST_Response|\WP_Error The upstream model list or error.
+	 */
+	public function proxy_ai_models( $request ) {
+		$provider = $this->get_ai_provider( '/models', $request->get_param( 'provider' ) ?? 'openai' );
+		if ( is_wp_error( $provider ) ) {
+			return $provider;
+		}
+
+		$response = wp_remote_get(
+			$provider['url'],
+			array(
+				'headers' => $provider['headers'],
+				'timeout' => 15,
+			)
+		);
+
+		if ( is_wp_error( $response ) ) {
+			return new \WP_Error(
+				'ai_request_failed',
+				$response->get_error_message(),
+				array( 'status' => 500 )
+			);
+		}
+
+		$response_code = wp_remote_retrieve_response_code( $response );
+		$data          = json_decode( wp_remote_retrieve_body( $response ), true );
+
+		if ( 200 !== $response_code ) {
+			return new \WP_Error(
+				'ai_request_error',
+				$data['error']['message'] ?? __( 'AI request failed', 'wp-mcp' ),
+				array( 'status' => $response_code )
+			);
+		}
+
+		return rest_ensure_response( $data );
+	}
+
+	/**
+	 * Resolve an AI provider's endpoint and authentication headers.
+	 *
+	 * @param string $path     The API path, e.g. '/chat/completions'.
+	 * @param string $provider One of self::AI_PROVIDERS.
+	 * @return array|\WP_Error Array with 'url' and 'headers', or error if the provider is not configured.
+	 */
+	private function get_ai_provider( string $path, string $provider = 'openai' ) {
+		switch ( $provider ) {
+			case 'anthropic':
+				$anthropic_key = get_option( 'wp_mcp_anthropic_api_key' );
+				if ( empty( $anthropic_key ) ) {
+					break;
+				}
+
+				return array(
+					'url'     => 'https://api.anthropic.com/v1' . $path,
+					'headers' => array(
+						'x-api-key'         => $anthropic_key,
+						'anthropic-version' => '2023-06-01',
+						'Content-Type'      => 'application/json',
+					),
+				);
+
+			case 'gemini':
+				$gemini_key = get_option( 'wp_mcp_gemini_api_key' );
+				if ( empty( $gemini_key ) ) {
+					break;
+				}
+
+				return array(
+					'url'     => 'https://generativelanguage.googleapis.com/v1beta' . $path,
+					'headers' => array(
+						'x-goog-api-key' => $gemini_key,
+						'Content-Type'   => 'application/json',
+					),
+				);
+
+			case 'local':
+				$local_url = get_option( 'wp_mcp_local_llm_url' );
+				if ( empty( $local_url ) ) {
+					break;
+				}
+
+				$headers   = array( 'Content-Type' => 'application/json' );
+				$local_key = get_option( 'wp_mcp_local_llm_api_key' );
+				if ( ! empty( $local_key ) ) {
+					$headers['Authorization'] = 'Bearer ' . $local_key;
+				}
+
+				return array(
+					'url'     => untrailingslashit( $local_url ) . $path,
+					'headers' => $headers,
+				);
+
+			default:
+				$cloudflare_token = get_option( 'wp_mcp_cloudflare_token' );
+				$openai_key       = get_option( 'wp_mcp_openai_api_key' );
+				$gateway_url      = get_option( 'wp_mcp_cloudflare_gateway_url' );
+
+				if ( ! empty( $cloudflare_token ) && ! empty( $gateway_url ) ) {
+					// Use Cloudflare AI Gateway
+					return array(
+						'url'     => $gateway_url . $path,
+						'headers' => array(
+							'cf-aig-authorization' => 'Bearer ' . $cloudflare_token,
+							'Content-Type'         => 'application/json',
+						),
+					);
+				}
+
+				if ( ! empty( $openai_key ) ) {
+					// Use direct OpenAI API
+					return array(
+						'url'     => 'https://api.openai.com/v1' . $path,
+						'headers' => array(
+							'Authorization' => 'Bearer ' . $openai_key,
+							'Content-Type'  => 'application/json',
+						),
+					);
+				}
+		}
+
+		return new \WP_Error(
+			'missing_ai_config',
+			__( 'AI configuration is missing. Please configure an API key for this provider in settings.', 'wp-mcp' ),
+			array( 'status' => 400 )
+		);
+	}
+
+	/**
+	 * List the AI providers that have credentials configured.
+	 *
+	 * @return string[] Provider ids, in the order of self::AI_PROVIDERS.
+	 */
+	private function get_configured_ai_providers(): array {
+		return array_values(
+			array_filter(
+				self::AI_PROVIDERS,
+				function ( $provider ) {
+					return ! is_wp_error( $this->get_ai_provider( '', $provider ) );
+				}
+			)
+		);
+	}
+
+	/**
+	 * Relay a streaming AI completion to the browser as server-sent events.
+	 *
+	 * Upstream chunks are echoed and flushed as they arrive, so on success this
+	 * ends the request itself rather than returning a REST response. Upstream
+	 * errors received before any output are returned as a WP_Error instead.
+	 * Token counts are read from the events on the way through.
+	 *
+	 * @param string $provider_id One of self::AI_PROVIDERS.
+	 * @param string $model       The requested model, for the usage ledger.
+	 * @param string $api_url     The upstream URL.
+	 * @param array  $headers     The upstream request headers.
+	 * @param array  $body        The request body.
+	 * @return \WP_Error|void Error if the stream could not be started.
+	 */
+	private function stream_ai_request( string $provider_id, string $model, string $api_url, array $headers, array $body ) {
+		if ( ! function_exists( 'curl_init' ) ) {
+			return new \WP_Error(
+				'streaming_not_supported',
+				__( 'Streaming responses require the PHP cURL extension.', 'wp-mcp' ),
+				array( 'status' => 501 )
+			);
+		}
+
+		$header_lines = array( 'Accept: text/event-stream' );
+		foreach ( $headers as $name => $value ) {
+			$header_lines[] = $name . ': ' . $value;
+		}
+
+		$status_code    = 0;
+		$error_body     = '';
+		$stream_started = false;
+		$partial_line   = '';
+		$usage          = Usage::extract_usage( null );
+
+		// Keep relaying when the browser stops reading, e.g. after Stop is pressed.
+		// Most providers only report usage at the end of the stream, so ending
+		// here would leave the request out of the usage ledger and the budget.
+		ignore_user_abort( true );
+
+		// phpcs:disable WordPress.WP.AlternativeFunctions -- wp_remote_post() cannot relay a response body incrementally.
+		$curl = curl_init( $api_url );
+		curl_setopt_array(
+			$curl,
+			array(
+				CURLOPT_POST           => true,
+				CURLOPT_POSTFIELDS     => wp_json_encode( $body ),
+				CURLOPT_HTTPHEADER     => $header_lines,
+				CURLOPT_TIMEOUT        => 120,
+				CURLOPT_HEADERFUNCTION => function ( $handle, $header ) use ( &$status_code ) {
+					if ( preg_match( '#^HTTP/\S+\s+(\d{3})#', $header, $matches ) ) {
+						$status_code = (int) $matches[1];
+					}
+					return strlen( $header );
+				},
+				CURLOPT_WRITEFUNCTION  => function ( $handle, $chunk ) use ( &$status_code, &$error_body, &$stream_started, &$partial_line, &$usage ) {
+					// Buffer error bodies so they can be reported as a normal REST error.
+					if ( 200 !== $status_code ) {
+						$error_body .= $chunk;
+						return strlen( $chunk );
+					}
+
+					if ( ! $stream_started ) {
+						$this->send_stream_headers();
+						$stream_started = true;
+					}
+
+					echo $chunk; // phpcs:ignore WordPress.Security.EscapeOutput.OutputNotEscaped -- Raw SSE pass-through.
+					flush();
+
+					// Providers report usage in one event or as running totals, so keep the highest counts
+					$lines        = explode( "\n", $partial_line . $chunk );
+					$partial_line = array_pop( $lines );
+					foreach ( $lines as $line ) {
+						if ( str_starts_with( $line, 'data:' ) ) {
+							$event_usage = Usage::extract_usage( json_decode( trim( substr( $line, 5 ) ), true ) );
+							foreach ( $usage as $field => $count ) {
+								$usage[ $field ] = max( $count, $event_usage[ $field ] );
+							}
+						}
+					}
+
+					return strlen( $chunk );
+				},
+			)
+		);
+
+		$success    = curl_exec( $curl );
+		$curl_error = curl_error( $curl );
+		curl_close( $curl );
+		// phpcs:enable WordPress.WP.AlternativeFunctions
+
+		if ( $stream_started ) {
+			Usage::get_instance()->record( get_current_user_id(), $provider_id, $model, $usage );
+			exit;
+		}
+
+		if ( false === $success ) {
+			return new \WP_Error(
+				'ai_request_failed',
+				$curl_error,
+				array( 'status' => 500 )
+			);
+		}
+
+		$data = json_decode( $error_body, true );
+
+		return new \WP_Error(
+			'ai_request_error',
+			$data['error']['message'] ?? __( 'AI request failed', 'wp-mcp' ),
+			array( 'status' => $status_code >= 400 ? $status_code : 502 )
+		);
+	}
+
+	/**
+	 * Send server-sent event headers and disable output buffering.
+	 */
+	private function send_stream_headers(): void {
+		status_header( 200 );
+		header( 'Content-Type: text/event-stream' );
+		header( 'Cache-Control: no-cache' );
+		header( 'X-Accel-Buffering: no' );
+
+		while ( ob_get_level() > 0 ) {
+			ob_end_flush();
+		}
+	}
+
+	/**
+	 * Relay an MCP Streamable HTTP request to a remote WordPress site.
+	 *
+	 * The browser talks to this endpoint as if it were the remote MCP server;
+	 * the request is forwarded with the site's Application Password or bearer
+	 * token, which never leave this server. The upstream response is echoed
+	 * as-is, so on success this ends the request itself.
+	 *
+	 * @param \WP_REST_Request $request The REST request object.
+	 * @return \WP_Error|void Error if the site is unknown or unreachable.
+	 */
+	public function proxy_mcp_request( $request ) {
+		$site = $this->get_remote_site( $request->get_param( 'site' ) );
+		if ( null === $site ) {
+			return new \WP_Error(
+				'remote_site_not_found',
+				__( 'This remote site is not configured.', 'wp-mcp' ),
+				array( 'status' => 404 )
+			);
+		}
+
+		// Server-initiated streams cannot be held open through the proxy; MCP
+		// clients treat 405 as "no standalone stream" and keep working.
+		if ( 'GET' === $request->get_method() ) {
+			return new \WP_Error(
+				'rest_method_not_allowed',
+				__( 'The MCP proxy does not support server-initiated streams.', 'wp-mcp' ),
+				array( 'status' => 405 )
+			);
+		}
+
+		$headers = array(
+			'Authorization' => 'bearer' === $site['auth_type']
+				? 'Bearer ' . $site['secret']
+				: 'Basic ' . base64_encode( $site['username'] . ':' . $site['secret'] ), // phpcs:ignore WordPress.PHP.DiscouragedPHPFunctions.obfuscation_base64_encode -- HTTP Basic authentication.
+			'Content-Type'  => 'application/json',
+			'Accept'        => $request->get_header( 'accept' ) ?? 'application/json, text/event-stream',
+		);
+		foreach ( array( 'Mcp-Session-Id', 'Mcp-Protocol-Version', 'Last-Event-ID' ) as $name ) {
+			$value = $request->get_header( $name );
+			if ( null !== $value ) {
+				$headers[ $name ] = $value;
+			}
+		}
+
+		$response = wp_remote_request(
+			$site['url'],
+			array(
+				'method'  => $request->get_method(),
+				'headers' => $headers,
+				'body'    => 'POST' === $request->get_method() ? $request->get_body() : null,
+				'timeout' => 60,
+			)
+		);
+
+		if ( is_wp_error( $response ) ) {
+			return new \WP_Error(
+				'remote_site_unreachable',
+				$response->get_error_message(),
+				array( 'status' => 502 )
+			);
+		}
+
+		status_header( wp_remote_retrieve_response_code( $response ) );
+		foreach ( array( 'content-type', 'mcp-session-id', 'mcp-protocol-version' ) as $name ) {
+			$value = wp_remote_retrieve_header( $response, $name );
+			if ( '' !== $value ) {
+				header( $name . ': ' . $value );
+			}
+		}
+
+		echo wp_remote_retrieve_body( $response ); // phpcs:ignore WordPress.Security.EscapeOutput.OutputNotEscaped -- Raw MCP pass-through.
+		exit;
+	}
+
+	/**
+	 * Find a configured remote site by id.
+	 *
+	 * @param string $site_id The site id.
+	 * @return array|null The site, including its credentials, or null if unknown.
+	 */
+	private function get_remote_site( string $site_id ): ?array {
+		foreach ( (array) get_option( 'wp_mcp_remote_sites', array() ) as $site ) {
+			if ( $site['id'] === $site_id ) {
+				return $site;
+			}
+		}
+
+		return null;
+	}
 
 	/**
 	 * Get plugin settings
@@ -461,17 +1366,236 @@ class RestApi {
 		);
 	}
 
+	/**
+	 * Get the current user's token usage and estimated cost for a month,
+	 * by default the current one.
+	 *
+	 * @param \WP_REST_Request $request The REST request object.
+	 * @return \WP_REST_Response The usage per model, totals and budget.
+	 */
+	public function get_usage( $request ) {
+		$usage   = Usage::get_instance();
+		$user_id = get_current_user_id();
+		$month   = $request->get_param( 'month' ) ?? Usage::current_month();
+		$models  = $usage->get_usage( $month, $user_id );
+
+		return rest_ensure_response(
+			array(
+				'success' => true,
+				'usage'   => array(
+					'month'             => $month,
+					'models'            => $models,
+					'requests'          => array_sum( array_column( $models, 'requests' ) ),
+					'prompt_tokens'     => array_sum( array_column( $models, 'prompt_tokens' ) ),
+					'completion_tokens' => array_sum( array_column( $models, 'completion_tokens' ) ),
+					'cost'              => (float) array_sum( array_column( $models, 'cost' ) ),
+					'budget'            => $usage->get_monthly_budget( $user_id ),
+				),
+			)
+		);
+	}
+
 	/**
 	 * Get plugin settings (sanitized for frontend)
 	 */
 	private function get_plugin_settings() {
 		return array(
-			'mcp_server_url'           => rest_url( 'mcp/mcp-adapter-default-server' ),
-			'cloudflare_gateway_url'   => get_option( 'wp_mcp_cloudflare_gateway_url', '' ),
-			'cloudflare_token'         => ! empty( get_option( 'wp_mcp_cloudflare_token', '' ) ) ? '***' : '',
-			'chat_history_enabled'     => (bool) get_option( 'wp_mcp_chat_history_enabled', true ),
-			'max_messages_per_session' => (int) get_option( 'wp_mcp_max_messages_per_session', 100 ),
-			'openai_api_key'           => ! empty( get_option( 'wp_mcp_openai_api_key', '' ) ) ? '***' : '',
+			'mcp_server_url'                => rest_url( 'mcp/mcp-adapter-default-server' ),
+			'mcp_servers'                   => $this->get_mcp_servers(),
+			// The MCP proxy is limited to administrators, so nobody else is offered the sites
+			'remote_sites'                  => current_user_can( 'manage_options' ) ? $this->get_remote_site_summaries() : array(),
+			'cloudflare_gateway_url'        => get_option( 'wp_mcp_cloudflare_gateway_url', '' ),
+			'cloudflare_token'              => ! empty( get_option( 'wp_mcp_cloudflare_token', '' ) ) ? '***' : '',
+			'chat_history_enabled'          => (bool) get_option( 'wp_mcp_chat_history_enabled', true ),
+			'max_messages_per_session'      => (int) get_option( 'wp_mcp_max_messages_per_session', 100 ),
+			'openai_api_key'                => ! empty( get_option( 'wp_mcp_openai_api_key', '' ) ) ? '***' : '',
+			'agent_max_iterations'          => (int) get_option( 'wp_mcp_agent_max_iterations', 8 ),
+			'agent_max_tool_calls'          => (int) get_option( 'wp_mcp_agent_max_tool_calls', 20 ),
+			'agent_max_parallel_tool_calls' => (int) get_option( 'wp_mcp_agent_max_parallel_tool_calls', 4 ),
+			'tool_approval_policy'          => (object) get_option( 'wp_mcp_tool_approval_policy', array() ),
+			'system_prompt'                 => get_option( 'wp_mcp_system_prompt', '' ),
+			'ai_providers'                  => $this->get_configured_ai_providers(),
+			'model_prices'                  => Usage::get_instance()->get_model_prices(),
+		);
+	}
+
+	/**
+	 * List the MCP servers the chat connects to: this site's server first,
+	 * then the servers added in settings.
+	 *
+	 * @return array List of servers with 'id', 'name' and 'url'.
+	 */
+	private function get_mcp_servers(): array {
+		$servers = array_merge(
+			array(
+				array(
+					'id'   => 'wordpress',
+					'name' => get_bloginfo( 'name' ),
+					'url'  => rest_url( 'mcp/mcp-adapter-default-server' ),
+				),
+			),
+			(array) get_option( 'wp_mcp_mcp_servers', array() )
+		);
+
+		/**
+		 * Filter the MCP servers the chat connects to.
+		 *
+		 * @param array $servers List of servers with 'id', 'name' and 'url'. Tools from
+		 *                       every server but the first are prefixed with its id.
+		 */
+		return array_values( apply_filters( 'wp_mcp_servers', $servers ) );
+	}
+
+	/**
+	 * List remote sites for the site switcher, without their credentials.
+	 *
+	 * @return array List of sites with 'id', 'name' and 'url'.
+	 */
+	private function get_remote_site_summaries(): array {
+		return array_map(
+			function ( $site ) {
+				return array(
+					'id'   => $site['id'],
+					'name' => $site['name'],
+					'url'  => $site['url'],
+				);
+			},
+			array_values( (array) get_option( 'wp_mcp_remote_sites', array() ) )
+		);
+	}
+
+	/**
+	 * Extract the structured (schema version 2+) message fields from a chat request.
+	 *
+	 * Version 1 clients only send content and role, so nothing is returned for them.
+	 *
+	 * @param \WP_REST_Request $request The REST request object.
+	 * @return array Structured fields to store alongside the message.
+	 */
+	private function get_structured_message_fields( $request ): array {
+		$schema_version = (int) $request->get_param( 'schema_version' );
+		if ( $schema_version < 2 ) {
+			return array();
+		}
+
+		$fields = array( 'schema_version' => $schema_version );
+
+		$id = $request->get_param( 'id' );
+		if ( ! empty( $id ) ) {
+			$fields['id'] = $id;
+		}
+
+		$timestamp = $request->get_param( 'timestamp' );
+		if ( ! empty( $timestamp ) && false !== strtotime( $timestamp ) ) {
+			$fields['timestamp'] = $timestamp;
+		}
+
+		$tool_calls = $request->get_param( 'tool_calls' );
+		if ( is_array( $tool_calls ) && ! empty( $tool_calls ) ) {
+			$fields['tool_calls'] = array_map(
+				function ( $call ) {
+					return array(
+						'id'               => sanitize_text_field( $call['id'] ?? '' ),
+						'name'             => sanitize_text_field( $call['name'] ?? '' ),
+						'arguments'        => $this->get_stored_arguments( $call['arguments'] ?? null ),
+						'approval'         => isset( $call['approval'] ) ? sanitize_key( $call['approval'] ) : null,
+						'validation_error' => isset( $call['validation_error'] ) ? sanitize_textarea_field( $call['validation_error'] ) : null,
+					);
+				},
+				$tool_calls
+			);
+		}
+
+		$tool_results = $request->get_param( 'tool_results' );
+		if ( is_array( $tool_results ) && ! empty( $tool_results ) ) {
+			$fields['tool_results'] = array_map(
+				function ( $result ) {
+					return array(
+						'id'     => sanitize_text_field( $result['id'] ?? '' ),
+						'result' => $this->limit_stored_result( $result['result'] ?? null ),
+						'error'  => isset( $result['error'] ) ? sanitize_textarea_field( $result['error'] ) : null,
+					);
+				},
+				$tool_results
+			);
+		}
+
+		$model = $request->get_param( 'model' );
+		if ( ! empty( $model ) ) {
+			$fields['model'] = $model;
+		}
+
+		$usage = $request->get_param( 'usage' );
+		if ( is_array( $usage ) ) {
+			$fields['usage'] = array(
+				'prompt_tokens'     => (int) ( $usage['prompt_tokens'] ?? 0 ),
+				'completion_tokens' => (int) ( $usage['completion_tokens'] ?? 0 ),
+				'total_tokens'      => (int) ( $usage['total_tokens'] ?? 0 ),
+			);
+		}
+
+		if ( $request->get_param( 'stopped' ) ) {
+			$fields['stopped'] = true;
+		}
+
+		$attachments = $request->get_param( 'attachments' );
+		if ( is_array( $attachments ) && ! empty( $attachments ) ) {
+			$fields['attachments'] = array_map(
+				function ( $attachment ) {
+					return array(
+						'uri'       => sanitize_text_field( $attachment['uri'] ?? '' ),
+						'name'      => sanitize_text_field( $attachment['name'] ?? '' ),
+						'mime_type' => sanitize_text_field( $attachment['mime_type'] ?? '' ),
+						// Kept verbatim, markup included, so a reload gives the model the same context.
+						'text'      => mb_substr( wp_check_invalid_utf8( (string) ( $attachment['text'] ?? '' ) ), 0, 20000 ),
+					);
+				},
+				$attachments
+			);
+		}
+
+		return $fields;
+	}
+
+	/**
+	 * Tool call arguments as a JSON object string.
+	 *
+	 * Sessions are decoded into arrays, so arguments are stored as JSON text
+	 * to keep empty objects from coming back as [].
+	 *
+	 * @param mixed $arguments JSON string, or the parsed arguments of clients before schema version 5.
+	 * @return string The arguments as JSON, '{}' when they are not an object.
+	 */
+	private function get_stored_arguments( $arguments ): string {
+		if ( is_string( $arguments ) ) {
+			$decoded = json_decode( $arguments );
+			return is_object( $decoded ) ? $arguments : '{}';
+		}
+
+		return is_array( $arguments ) && ! wp_is_numeric_array( $arguments ) ? (string) wp_json_encode( (object) $arguments ) : '{}';
+	}
+
+	/**
+	 * Keep stored tool results from bloating the session row.
+	 *
+	 * Oversized results are replaced with a truncated text rendering.
+	 *
+	 * @param mixed $result The tool result.
+	 * @return mixed The result, or a truncated text block.
+	 */
+	private function limit_stored_result( $result ) {
+		$max_result_length = 20000;
+		$encoded           = wp_json_encode( $result );
+
+		if ( false === $encoded || strlen( $encoded ) <= $max_result_length ) {
+			return $result;
+		}
+
+		return array(
+			array(
+				'type' => 'text',
+				'text' => substr( $encoded, 0, $max_result_length ) . ' [truncated]',
+			),
 		);
 	}
 
@@ -481,8 +1605,9 @@ class RestApi {
 	 * @param string $session_id The session ID.
 	 * @param string $content    The message content.
 	 * @param string $role       The message role (user or assistant).
+	 * @param array  $fields     Optional structured fields (schema version 2+).
 	 */
-	private function save_message_to_history( string $session_id, string $content, string $role ): void {
+	private function save_message_to_history( string $session_id, string $content, string $role, array $fields = array() ): void {
 		if ( ! get_option( 'wp_mcp_chat_history_enabled', true ) ) {
 			return;
 		}
@@ -503,19 +1628,29 @@ class RestApi {
 			'timestamp' => current_time( 'mysql' ),
 		);
 
-		// Get existing session data for current user only.
+		if ( ! empty( $fields ) ) {
+			// Version 2 stores the text under 'message', matching the request shape.
+			unset( $message_data['content'] );
+			$message_data = array_merge( $message_data, array( 'message' => $content ), $fields );
+		}
+
+		// Get existing session for current user only.
 		// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery, WordPress.DB.DirectDatabaseQuery.NoCaching
-		$session_data = $wpdb->get_var(
+		$session = $wpdb->get_row(
 			$wpdb->prepare(
-				'SELECT session_data FROM ' . $wpdb->prefix . 'mcp_chat_sessions WHERE id = %s AND user_id = %d',
-				$session_id,
-				$user_id
+				'SELECT user_id, title, session_data FROM ' . $wpdb->prefix . 'mcp_chat_sessions WHERE id = %s',
+				$session_id
 			)
 		);
 
+		// Never write into another user's session.
+		if ( $session && (int) $session->user_id !== $user_id ) {
+			return;
+		}
+
 		$messages = array();
-		if ( $session_data ) {
-			$decoded = json_decode( $session_data, true );
+		if ( $session && $session->session_data ) {
+			$decoded = json_decode( $session->session_data, true );
 			if ( json_last_error() === JSON_ERROR_NONE && is_array( $decoded ) ) {
 				$messages = $decoded;
 			}
@@ -528,16 +1663,37 @@ class RestApi {
 			$messages = array_slice( $messages, -$max_messages );
 		}
 
-		// Insert or update session.
-		// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery
-		$wpdb->replace(
-			$wpdb->prefix . 'mcp_chat_sessions',
-			array(
-				'id'           => $session_id,
-				'user_id'      => $user_id,
-				'session_data' => wp_json_encode( $messages ),
-			),
-			array( '%s', '%d', '%s' )
-		);
+		$row = array( 'session_data' => wp_json_encode( $messages ) );
+
+		// Auto-title the session from its first user message.
+		if ( ( ! $session || '' === (string) $session->title ) && 'user' === $role ) {
+			$row['title'] = mb_substr( wp_trim_words( $content, 8, '…' ), 0, 255 );
+		}
+
+		if ( $session ) {
+			// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery, WordPress.DB.DirectDatabaseQuery.NoCaching
+			$wpdb->update(
+				$wpdb->prefix . 'mcp_chat_sessions',
+				$row,
+				array(
+					'id'      => $session_id,
+					'user_id' => $user_id,
+				),
+				null,
+				array( '%s', '%d' )
+			);
+		} else {
+			// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery
+			$wpdb->insert(
+				$wpdb->prefix . 'mcp_chat_sessions',
+				array_merge(
+					array(
+						'id'      => $session_id,
+						'user_id' => $user_id,
+					),
+					$row
+				)
+			);
+		}
 	}
 }
@@ -0,0 +1,288 @@
+<?php
+/**
+ * Token usage ledger and budgets for WP MCP
+ *
+ * @package WP_MCP
+ */
+
+namespace WP_MCP;
+
+// Exit if accessed directly
+if ( ! defined( 'ABSPATH' ) ) {
+	exit;
+}
+
+/**
+ * Usage class
+ *
+ * Records the tokens of every AI request relayed by the proxy, per user,
+ * month and model, and estimates their cost from the configured price table.
+ */
+class Usage {
+
+	/**
+	 * Prices in USD per million input and output tokens, used until the
+	 * price table is edited in settings. Models match by longest prefix.
+	 */
+	const DEFAULT_MODEL_PRICES = array(
+		array(
+			'model'  => 'gpt-4o',
+			'input'  => 2.5,
+			'output' => 10,
+		),
+		array(
+			'model'  => 'gpt-4o-mini',
+			'input'  => 0.15,
+			'output' => 0.6,
+		),
+		array(
+			'model'  => 'gpt-4.1',
+			'input'  => 2,
+			'output' => 8,
+		),
+		array(
+			'model'  => 'gpt-4.1-mini',
+			'input'  => 0.4,
+			'output' => 1.6,
+		),
+		array(
+			'model'  => 'claude-opus-4',
+			'input'  => 15,
+			'output' => 75,
+		),
+		array(
+			'model'  => 'claude-sonnet-4',
+			'input'  => 3,
+			'output' => 15,
+		),
+		array(
+			'model'  => 'claude-3-5-haiku',
+			'input'  => 0.8,
+			'output' => 4,
+		),
+		array(
+			'model'  => 'gemini-2.5-pro',
+			'input'  => 1.25,
+			'output' => 10,
+		),
+		array(
+			'model'  => 'gemini-2.5-flash',
+			'input'  => 0.3,
+			'output' => 2.5,
+		),
+		array(
+			'model'  => 'gemini-2.0-flash',
+			'input'  => 0.1,
+			'output' => 0.4,
+		),
+	);
+
+	private static $instance = null;
+
+	/**
+	 * Get singleton instance
+	 */
+	public static function get_instance() {
+		if ( null === self::$instance ) {
+			self::$instance = new self();
+		}
+		return self::$instance;
+	}
+
+	/**
+	 * Constructor
+	 */
+	private function __construct() {}
+
+	/**
+	 * Add a request's tokens to the user's monthly total for the model.
+	 *
+	 * @param int    $user_id  The user who made the request.
+	 * @param string $provider One of RestApi::AI_PROVIDERS.
+	 * @param string $model    The requested model.
+	 * @param array  $usage    Array with 'prompt_tokens' and 'completion_tokens'.
+	 */
+	public function record( int $user_id, string $provider, string $model, array $usage ): void {
+		global $wpdb;
+
+		// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery, WordPress.DB.DirectDatabaseQuery.NoCaching
+		$wpdb->query(
+			$wpdb->prepare(
+				'INSERT INTO ' . $wpdb->prefix . 'mcp_usage (user_id, month, provider, model, requests, prompt_tokens, completion_tokens)
+				VALUES (%d, %s, %s, %s, 1, %d, %d)
+				ON DUPLICATE KEY UPDATE requests = requests + 1, prompt_tokens = prompt_tokens + VALUES(prompt_tokens), completion_tokens = completion_tokens + VALUES(completion_tokens)',
+				$user_id,
+				self::current_month(),
+				$provider,
+				substr( $model, 0, 191 ),
+				(int) ( $usage['prompt_tokens'] ?? 0 ),
+				(int) ( $usage['completion_tokens'] ?? 0 )
+			)
+		);
+	}
+
+	/**
+	 * Usage per user and model for a month, with estimated costs.
+	 *
+	 * @param string   $month   Month as 'YYYY-MM'.
+	 * @param int|null $user_id Only this user's usage, or everyone's when null.
+	 * @return array List of rows with 'user_id', 'provider', 'model', 'requests', token counts and 'cost' (null without a price).
+	 */
+	public function get_usage( string $month, ?int $user_id = null ): array {
+		global $wpdb;
+
+		$sql  = 'SELECT user_id, provider, model, requests, prompt_tokens, completion_tokens FROM ' . $wpdb->prefix . 'mcp_usage WHERE month = %s';
+		$args = array( $month );
+		if ( null !== $user_id ) {
+			$sql   .= ' AND user_id = %d';
+			$args[] = $user_id;
+		}
+
+		// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery, WordPress.DB.DirectDatabaseQuery.NoCaching, WordPress.DB.PreparedSQL.NotPrepared
+		$rows = $wpdb->get_results( $wpdb->prepare( $sql . ' ORDER BY user_id, provider, model', $args ), ARRAY_A );
+
+		return array_map(
+			function ( $row ) {
+				$row = array(
+					'user_id'           => (int) $row['user_id'],
+					'provider'          => $row['provider'],
+					'model'             => $row['model'],
+					'requests'          => (int) $row['requests'],
+					'prompt_tokens'     => (int) $row['prompt_tokens'],
+					'completion_tokens' => (int) $row['completion_tokens'],
+				);
+
+				$row['cost'] = $this->estimate_cost( $row['model'], $row['prompt_tokens'], $row['completion_tokens'] );
+				return $row;
+			},
+			(array) $rows
+		);
+	}
+
+	/**
+	 * Estimated cost of a user's requests this month, in USD.
+	 *
+	 * @param int $user_id The user.
+	 * @return float The cost of models with a price.
+	 */
+	public function get_monthly_cost( int $user_id ): float {
+		return (float) array_sum( array_column( $this->get_usage( self::current_month(), $user_id ), 'cost' ) );
+	}
+
+	/**
+	 * A user's monthly budget in USD, or 0 for no limit.
+	 *
+	 * @param int $user_id The user.
+	 * @return float The budget.
+	 */
+	public function get_monthly_budget( int $user_id ): float {
+		/**
+		 * Filter the monthly AI budget of a user, e.g. to give some roles more.
+		 *
+		 * @param float $budget  Budget in USD from settings; 0 for no limit.
+		 * @param int   $user_id The user.
+		 */
+		return max( 0, (float) apply_filters( 'wp_mcp_monthly_budget', (float) get_option( 'wp_mcp_monthly_budget', 0 ), $user_id ) );
+	}
+
+	/**
+	 * Refuse AI requests from users who used up their monthly budget.
+	 *
+	 * The check runs before each request, so the last request of the month
+	 * may go over the budget by its own cost.
+	 *
+	 * @param int $user_id The user.
+	 * @return true|\WP_Error True if allowed, WP_Error otherwise.
+	 */
+	public function check_budget( int $user_id ) {
+		$budget = $this->get_monthly_budget( $user_id );
+		if ( $budget <= 0 || $this->get_monthly_cost( $user_id ) < $budget ) {
+			return true;
+		}
+
+		return new \WP_Error(
+			'wp_mcp_budget_exceeded',
+			sprintf(
+				/* translators: %s: monthly budget in USD */
+				__( 'You have used your monthly AI budget of $%s. It resets at the start of next month.', 'wp-mcp' ),
+				number_format_i18n( $budget, 2 )
+			),
+			array( 'status' => 429 )
+		);
+	}
+
+	/**
+	 * The configured price table.
+	 *
+	 * @return array List of entries with 'model', 'input' and 'output' prices per million tokens.
+	 */
+	public function get_model_prices(): array {
+		return (array) get_option( 'wp_mcp_model_prices', self::DEFAULT_MODEL_PRICES );
+	}
+
+	/**
+	 * Estimate the cost of tokens for a model.
+	 *
+	 * The price entry with the longest name that the model starts with is
+	 * used, so "gpt-4o" also prices "gpt-4o-2024-08-06".
+	 *
+	 * @param string $model             The model.
+	 * @param int    $prompt_tokens     Input tokens.
+	 * @param int    $completion_tokens Output tokens.
+	 * @return float|null Cost in USD, or null if the model has no price.
+	 */
+	public function estimate_cost( string $model, int $prompt_tokens, int $completion_tokens ): ?float {
+		$match = null;
+		foreach ( $this->get_model_prices() as $price ) {
+			if ( str_starts_with( $model, $price['model'] ) && ( null === $match || strlen( $price['model'] ) > strlen( $match['model'] ) ) ) {
+				$match = $price;
+			}
+		}
+
+		if ( null === $match ) {
+			return null;
+		}
+
+		return ( $prompt_tokens * (float) $match['input'] + $completion_tokens * (float) $match['output'] ) / 1000000;
+	}
+
+	/**
+	 * Read the token counts from a provider response or stream event.
+	 *
+	 * Understands OpenAI 'usage', Anthropic 'usage' (also nested in
+	 * message_start events) and Gemini 'usageMetadata'.
+	 *
+	 * @param mixed $data Decoded JSON response or event.
+	 * @return array Array with 'prompt_tokens' and 'completion_tokens'.
+	 */
+	public static function extract_usage( $data ): array {
+		$usage = array(
+			'prompt_tokens'     => 0,
+			'completion_tokens' => 0,
+		);
+
+		if ( ! is_array( $data ) ) {
+			return $usage;
+		}
+
+		$reported = $data['usage'] ?? $data['message']['usage'] ?? null;
+		if ( is_array( $reported ) ) {
+			$usage['prompt_tokens']     = (int) ( $reported['prompt_tokens'] ?? $reported['input_tokens'] ?? 0 );
+			$usage['completion_tokens'] = (int) ( $reported['completion_tokens'] ?? $reported['output_tokens'] ?? 0 );
+		} elseif ( isset( $data['usageMetadata'] ) && is_array( $data['usageMetadata'] ) ) {
+			$usage['prompt_tokens']     = (int) ( $data['usageMetadata']['promptTokenCount'] ?? 0 );
+			$usage['completion_tokens'] = (int) ( $data['usageMetadata']['candidatesTokenCount'] ?? 0 );
+		}
+
+		return $usage;
+	}
+
+	/**
+	 * The current month as stored in the ledger.
+	 *
+	 * @return string Month as 'YYYY-MM' in UTC.
+	 */
+	public static function current_month(): string {
+		return gmdate( 'Y-m' );
+	}
+}
@@ -0,0 +1,405 @@
+import {
+  AbortError,
+  ChatEvent,
+  ChatMessage,
+  MCPTool,
+  MCPToolResult,
+  StreamChunk,
+  ToolApprovalDecision,
+  ToolCall,
+  ToolResult,
+} from './types';
+import { MCPClientManager } from './mcp-client-manager';
+import { LLMProvider } from './base-llm-client';
+import { READ_RESOURCE_TOOL_NAME, readResourceAsToolResult } from './resource-tools';
+import { formatValidationError, validateToolArguments } from './tool-validation';
+
+export const DEFAULT_MAX_ITERATIONS = 8;
+export const DEFAULT_MAX_TOOL_CALLS = 20;
+export const DEFAULT_MAX_PARALLEL_TOOL_CALLS = 4;
+
+const CANCELLED_TOOL_ERROR = 'Cancelled by user; the call was not completed.';
+
+export interface AgentLoopOptions {
+  llmClient: LLMProvider;
+  mcpClient: MCPClientManager;
+  tools: MCPTool[];
+  maxIterations?: number;
+  maxToolCalls?: number;
+  maxParallelToolCalls?: number;
+  signal?: AbortSignal;
+  approval?: ToolApprovalGate;
+  onMessage?: (message: ChatMessage) => void;
+  onMessageComplete?: (message: ChatMessage) => void;
+  onEvent?: (event: ChatEvent) => void;
+}
+
+/**
+ * Human-in-the-loop hook consulted before each tool call is executed
+ */
+export interface ToolApprovalGate {
+  needsApproval(toolCall: ToolCall): boolean;
+  request(toolCall: ToolCall): Promise<ToolApprovalDecision>;
+}
+
+/**
+ * Run a multi-step agent turn.
+ *
+ * The model is called repeatedly with the growing transcript. Every assistant
+ * reply that requests tools is executed against the MCP server and appended
+ * (with its results) so the next request carries real `role: 'tool'` messages.
+ * The loop ends when the model answers without tool calls or a budget is hit;
+ * on the last allowed iteration tools are withheld so the model has to reply.
+ *
+ * `onMessage` receives every intermediate state of a message (streaming
+ * deltas, tool calls awaiting approval); `onMessageComplete` receives each
+ * message once it is final.
+ *
+ * Aborting `signal` cancels the in-flight model request or tool call. Whatever
+ * was produced so far is completed as a message flagged `stopped`, and the
+ * loop then rejects with an AbortError.
+ *
+ * Returns the assistant messages produced during the turn, in order.
+ */
+export async function runAgentLoop(
+  history: ChatMessage[],
+  options: AgentLoopOptions
+): Promise<ChatMessage[]> {
+  const {
+    llmClient,
+    tools,
+    maxIterations = DEFAULT_MAX_ITERATIONS,
+    maxToolCalls = DEFAULT_MAX_TOOL_CALLS,
+    signal,
+    onMessage,
+    onMessageComplete,
+  } = options;
+
+  const transcript = [...history];
+  const produced: ChatMessage[] = [];
+  let toolCallCount = 0;
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const isLastIteration = iteration === maxIterations - 1;
+    const budgetLeft = maxToolCalls - toolCallCount;
+    const offeredTools = isLastIteration || budgetLeft <= 0 ? [] : tools;
+
+    const messageId = `assistant-${Date.now()}-${iteration}`;
+    const timestamp = new Date();
+    const streamed = createStreamAccumulator();
+
+    let response;
+    try {
+      response = await llmClient.streamMessages(transcript, offeredTools, (chunk) => {
+        streamed.add(chunk);
+        onMessage?.({
+          id: messageId,
+          role: 'assistant',
+          content: streamed.content,
+          timestamp,
+          toolCalls: streamed.toolCalls(),
+          isStreaming: true,
+        });
+      }, signal);
+    } catch (error) {
+      if (error instanceof AbortError) {
+        // Incomplete tool calls are dropped: they have no results to pair with
+        onMessageComplete?.({
+          id: messageId,
+          role: 'assistant',
+          content: streamed.content,
+          timestamp,
+          stopped: true,
+        });
+      }
+      throw error;
+    }
+
+    const assistantMessage: ChatMessage = {
+      id: messageId,
+      role: 'assistant',
+      content: response.message,
+      timestamp,
+      toolCalls: response.toolCalls,
+      model: response.model,
+      usage: response.usage,
+    };
+
+    if (response.toolCalls && response.toolCalls.length > 0) {
+      assistantMessage.toolResults = await executeToolCalls(
+        response.toolCalls,
+        budgetLeft,
+        options,
+        () => onMessage?.({
+          ...assistantMessage,
+          toolCalls: response.toolCalls!.map(call => ({ ...call })),
+        })
+      );
+      toolCallCount += Math.min(response.toolCalls.length, Math.max(budgetLeft, 0));
+    }
+
+    if (signal?.aborted) {
+      assistantMessage.stopped = true;
+      onMessageComplete?.(assistantMessage);
+      throw new AbortError();
+    }
+
+    transcript.push(assistantMessage);
+    produced.push(assistantMessage);
+    onMessageComplete?.(assistantMessage);
+
+    if (!assistantMessage.toolCalls || assistantMessage.toolCalls.length === 0) {
+      break;
+    }
+  }
+
+  return produced;
+}
+
+/**
+ * Execute tool calls, answering calls beyond the budget, rejected by the
+ * user, with invalid arguments or skipped after a cancellation with an error
+ * so every tool_call_id still receives a result. Argument errors are worded
+ * for the model so it can retry with corrected arguments.
+ *
+ * Consecutive read-only calls that need no approval run concurrently, up to
+ * `maxParallelToolCalls` at a time. Any other call runs on its own, so a
+ * mutating call never overlaps the calls before or after it. Results keep
+ * the order of the calls.
+ *
+ * Approval and execution status are written onto the tool calls themselves
+ * and `onUpdate` is called whenever they change so the message can be
+ * re-rendered.
+ */
+async function executeToolCalls(
+  toolCalls: ToolCall[],
+  budgetLeft: number,
+  options: AgentLoopOptions,
+  onUpdate: () => void
+): Promise<ToolResult[]> {
+  const { tools, approval, maxParallelToolCalls = DEFAULT_MAX_PARALLEL_TOOL_CALLS } = options;
+  const toolResults: ToolResult[] = new Array(toolCalls.length);
+
+  for (const toolCall of toolCalls) {
+    toolCall.status = 'pending';
+  }
+  onUpdate();
+
+  const canRunInParallel = (toolCall: ToolCall) =>
+    tools.find(t => t.name === toolCall.name)?.annotations?.readOnlyHint === true
+    && !approval?.needsApproval(toolCall);
+
+  let index = 0;
+  while (index < toolCalls.length) {
+    if (!canRunInParallel(toolCalls[index])) {
+      toolResults[index] = await executeToolCall(toolCalls[index], index < budgetLeft, options, onUpdate);
+      index++;
+      continue;
+    }
+
+    let end = index;
+    while (end < toolCalls.length && canRunInParallel(toolCalls[end])) {
+      end++;
+    }
+
+    const batch = toolCalls.slice(index, end).map((toolCall, offset) => ({ toolCall, position: index + offset }));
+    await runWithConcurrency(batch, maxParallelToolCalls, async ({ toolCall, position }) => {
+      toolResults[position] = await executeToolCall(toolCall, position < budgetLeft, options, onUpdate);
+    });
+    index = end;
+  }
+
+  return toolResults;
+}
+
+/**
+ * Validate, approve and run a single tool call, tracking its status
+ */
+async function executeToolCall(
+  toolCall: ToolCall,
+  withinBudget: boolean,
+  options: AgentLoopOptions,
+  onUpdate: () => void
+): Promise<ToolResult> {
+  const { mcpClient, tools, signal, approval, onEvent } = options;
+
+  const fail = (error: string): ToolResult => {
+    toolCall.status = 'failed';
+    onUpdate();
+    return { id: toolCall.id, result: null, error };
+  };
+
+  const validate = (): string | undefined => {
+    const tool = tools.find(t => t.name === toolCall.name);
+    toolCall.validationError = toolCall.validationError ?? validateToolArguments(tool, toolCall.arguments);
+    return toolCall.validationError && formatValidationError(toolCall.name, toolCall.validationError);
+  };
+
+  if (signal?.aborted) {
+    return fail(CANCELLED_TOOL_ERROR);
+  }
+
+  if (!withinBudget) {
+    return fail('Tool call budget for this turn exhausted; the call was not executed.');
+  }
+
+  // Invalid calls are not offered for approval
+  const validationError = validate();
+  if (validationError) {
+    return fail(validationError);
+  }
+
+  let toolResult: ToolResult;
+  try {
+    if (approval?.needsApproval(toolCall)) {
+      toolCall.approval = 'pending';
+      onUpdate();
+
+      const decision = await waitForDecision(approval.request(toolCall), signal);
+
+      if (decision.action === 'reject') {
+        toolCall.approval = 'rejected';
+        return fail(decision.reason
+          ? `The user rejected this tool call: ${decision.reason}`
+          : 'The user rejected this tool call.');
+      }
+
+      toolCall.approval = 'approved';
+      toolCall.arguments = decision.arguments;
+
+      // The user may have edited the arguments
+      const editedError = validate();
+      if (editedError) {
+        return fail(editedError);
+      }
+    }
+
+    const startedAt = Date.now();
+    toolCall.status = 'running';
+    onUpdate();
+    onEvent?.({ type: 'tool_call_start', data: { ...toolCall } });
+
+    try {
+      const result = toolCall.name === READ_RESOURCE_TOOL_NAME
+        ? await readResourceAsToolResult(mcpClient, toolCall.arguments, signal)
+        : await mcpClient.callTool(toolCall.name, toolCall.arguments, signal);
+      toolResult = toToolResult(toolCall.id, result);
+    } catch (error) {
+      toolResult = { id: toolCall.id, result: null, error: describeToolError(error) };
+    }
+
+    toolCall.durationMs = Date.now() - startedAt;
+    toolCall.status = toolResult.error ? 'failed' : 'succeeded';
+    onUpdate();
+    onEvent?.({ type: 'tool_call_end', data: toolResult });
+    return toolResult;
+  } catch (error) {
+    // Only the approval wait gets here, when the turn is stopped
+    if (toolCall.approval === 'pending') {
+      toolCall.approval = 'rejected';
+    }
+    return fail(describeToolError(error));
+  }
+}
+
+/**
+ * Run `worker` over `items` with at most `limit` in flight at once
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(runners);
+}
+
+/**
+ * Convert an MCP tool result to the chat's tool result; isError results carry their text as the error
+ */
+export function toToolResult(id: string, result: MCPToolResult): ToolResult {
+  return {
+    id,
+    result: result.content,
+    error: result.isError ? extractText(result.content) || 'Tool returned an error' : undefined,
+  };
+}
+
+export function describeToolError(error: unknown): string {
+  return error instanceof AbortError
+    ? CANCELLED_TOOL_ERROR
+    : error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Wait for an approval decision, rejecting with an AbortError if the turn is stopped first
+ */
+function waitForDecision(
+  decision: Promise<ToolApprovalDecision>,
+  signal?: AbortSignal
+): Promise<ToolApprovalDecision> {
+  if (!signal) {
+    return decision;
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new AbortError());
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    decision.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+function extractText(content: Array<{ text?: string }>): string {
+  return content.map(item => item.text || '').join('\n').trim();
+}
+
+/**
+ * Collect stream chunks into displayable content and best-effort tool calls
+ */
+function createStreamAccumulator() {
+  const partialToolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+
+  return {
+    content: '',
+    add(chunk: StreamChunk) {
+      if (chunk.type === 'content') {
+        this.content += chunk.content;
+      } else {
+        partialToolCalls.set(chunk.index, {
+          id: chunk.id,
+          name: chunk.name,
+          arguments: chunk.arguments,
+        });
+      }
+    },
+    toolCalls(): ToolCall[] | undefined {
+      if (partialToolCalls.size === 0) {
+        return undefined;
+      }
+      return [...partialToolCalls.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([index, call]) => ({
+          id: call.id || `pending-${index}`,
+          name: call.name,
+          arguments: parsePartialArguments(call.arguments),
+        }));
+    },
+  };
+}
+
+function parsePartialArguments(json: string): Record<string, any> {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return {};
+  }
+}
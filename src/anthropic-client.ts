@@ -0,0 +1,319 @@
+import {
+  AssistantResponse,
+  ChatMessage,
+  LLMError,
+  MCPTool,
+  StreamChunk,
+  TokenUsage,
+  ToolCall
+} from './types';
+import { withAttachments } from './resource-tools';
+import { BaseLLMClient, TextCompletionMessage, TextCompletionOptions } from './base-llm-client';
+import { readServerSentEvents } from './sse';
+
+export const ANTHROPIC_DEFAULT_MODEL = 'claude-sonnet-4-5';
+
+// Offered when the model list cannot be fetched
+export const ANTHROPIC_FALLBACK_MODELS = [
+  'claude-opus-4-1',
+  'claude-sonnet-4-5',
+  'claude-3-5-haiku-latest',
+];
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+interface AnthropicTool {
+  name: string;
+  description: string;
+  input_schema: Record<string, any>;
+}
+
+interface AnthropicRequest {
+  model: string;
+  system?: string;
+  messages: AnthropicMessage[];
+  tools?: AnthropicTool[];
+  max_tokens: number;
+  temperature: number;
+  stream?: boolean;
+}
+
+/**
+ * Anthropic Messages API client, proxied through the WordPress REST API
+ */
+export class AnthropicClient extends BaseLLMClient {
+  readonly id = 'anthropic' as const;
+  readonly defaultModel = ANTHROPIC_DEFAULT_MODEL;
+
+  convertTools(tools: MCPTool[]): AnthropicTool[] {
+    return [...this.translateTools(tools).values()].map(({ definition }) => ({
+      name: definition.function.name,
+      description: definition.function.description,
+      input_schema: definition.function.parameters,
+    }));
+  }
+
+  async sendMessages(
+    conversation: ChatMessage[],
+    tools: MCPTool[] = [],
+    signal?: AbortSignal
+  ): Promise<AssistantResponse> {
+    const request = this.buildRequest(conversation, tools);
+
+    return this.recordRequest('send', request, async () => {
+      try {
+        const response = await this.fetchProxy('anthropic/messages', request, signal);
+        const data = await response.json();
+        const content: AnthropicContentBlock[] = data.content || [];
+
+        const result: AssistantResponse = {
+          message: content.map(block => block.type === 'text' ? block.text : '').join(''),
+          model: data.model,
+          usage: data.usage ? this.convertUsage(data.usage.input_tokens, data.usage.output_tokens) : undefined,
+          finishReason: data.stop_reason || undefined,
+        };
+
+        const toolCalls = content
+          .filter((block): block is Extract<AnthropicContentBlock, { type: 'tool_use' }> => block.type === 'tool_use')
+          .map(block => this.toToolCall(block.id, block.name, block.input));
+        if (toolCalls.length > 0) {
+          result.toolCalls = toolCalls;
+        }
+
+        return result;
+      } catch (error) {
+        throw this.toLLMError(error, signal);
+      }
+    });
+  }
+
+  /**
+   * Stream a reply. Text deltas are forwarded as they arrive; tool-use
+   * input arrives as JSON fragments that are accumulated per content block.
+   */
+  async streamMessages(
+    conversation: ChatMessage[],
+    tools: MCPTool[],
+    onChunk: (chunk: StreamChunk) => void,
+    signal?: AbortSignal
+  ): Promise<AssistantResponse> {
+    const request = { ...this.buildRequest(conversation, tools), stream: true };
+
+    return this.recordRequest('stream', request, async () => {
+      try {
+        const response = await this.fetchProxy('anthropic/messages', request, signal);
+
+        let message = '';
+        let model: string | undefined;
+        let inputTokens = 0;
+        let outputTokens = 0;
+        let finishReason: string | undefined;
+        const toolUses = new Map<number, { index: number; id: string; name: string; json: string }>();
+
+        await readServerSentEvents(response, ({ data }) => {
+          const event = JSON.parse(data);
+
+          switch (event.type) {
+            case 'message_start':
+              model = event.message?.model;
+              inputTokens = event.message?.usage?.input_tokens || 0;
+              outputTokens = event.message?.usage?.output_tokens || 0;
+              break;
+            case 'content_block_start':
+              if (event.content_block?.type === 'tool_use') {
+                const toolUse = {
+                  index: toolUses.size,
+                  id: event.content_block.id,
+                  name: event.content_block.name,
+                  json: '',
+                };
+                toolUses.set(event.index, toolUse);
+                onChunk({ type: 'tool_call', index: toolUse.index, id: toolUse.id, name: this.toolName(toolUse.name), arguments: '' });
+              }
+              break;
+            case 'content_block_delta':
+              if (event.delta?.type === 'text_delta') {
+                message += event.delta.text;
+                onChunk({ type: 'content', content: event.delta.text });
+              } else if (event.delta?.type === 'input_json_delta') {
+                const toolUse = toolUses.get(event.index);
+                if (toolUse) {
+                  toolUse.json += event.delta.partial_json;
+                  onChunk({ type: 'tool_call', index: toolUse.index, id: toolUse.id, name: this.toolName(toolUse.name), arguments: toolUse.json });
+                }
+              }
+              break;
+            case 'message_delta':
+              outputTokens = event.usage?.output_tokens ?? outputTokens;
+              finishReason = event.delta?.stop_reason || finishReason;
+              break;
+            case 'error':
+              throw new LLMError(event.error?.message || 'Streaming request failed', this.id, undefined, event.error?.type);
+          }
+        });
+
+        const result: AssistantResponse = {
+          message,
+          model,
+          usage: this.convertUsage(inputTokens, outputTokens),
+          finishReason,
+        };
+
+        if (toolUses.size > 0) {
+          result.toolCalls = [...toolUses.values()]
+            .sort((a, b) => a.index - b.index)
+            .map(toolUse => this.parseToolUse(toolUse.id, toolUse.name, toolUse.json));
+        }
+
+        return result;
+      } catch (error) {
+        throw this.toLLMError(error, signal);
+      }
+    });
+  }
+
+  async completeText(
+    messages: TextCompletionMessage[],
+    options: TextCompletionOptions,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const request = {
+      model: options.model || this.model,
+      system: messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n') || undefined,
+      messages: messages
+        .filter(message => message.role === 'user')
+        .map(message => ({ role: 'user', content: [{ type: 'text', text: message.content }] })),
+      max_tokens: options.maxTokens,
+      temperature: Math.min(options.temperature, 1),
+    };
+
+    return this.recordRequest('complete', request, async () => {
+      try {
+        const response = await this.fetchProxy('anthropic/messages', request, signal);
+        const data = await response.json();
+
+        return (data.content || [])
+          .map((block: AnthropicContentBlock) => block.type === 'text' ? block.text : '')
+          .join('')
+          .trim();
+      } catch (error) {
+        throw this.toLLMError(error, signal);
+      }
+    });
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    try {
+      const response = await this.fetchProxy('anthropic/models');
+      const data = await response.json();
+      const models = (data.data || []).map((model: { id: string }) => model.id);
+      return models.length > 0 ? models : [...ANTHROPIC_FALLBACK_MODELS];
+    } catch (error) {
+      return [...ANTHROPIC_FALLBACK_MODELS];
+    }
+  }
+
+  private buildRequest(conversation: ChatMessage[], tools: MCPTool[]): AnthropicRequest {
+    this.offeredTools = this.translateTools(tools);
+    const { system, messages } = this.convertMessages(conversation, tools.length > 0);
+
+    return {
+      model: this.model,
+      system,
+      messages,
+      tools: tools.length > 0 ? this.convertTools(tools) : undefined,
+      max_tokens: this.maxTokens,
+      // Anthropic accepts temperatures up to 1
+      temperature: Math.min(this.temperature, 1),
+    };
+  }
+
+  /**
+   * Convert chat messages to Anthropic's format. System messages move into
+   * the `system` parameter, tool results become `tool_result` blocks in a
+   * user turn, and consecutive turns of the same role are merged.
+   *
+   * Anthropic rejects tool blocks in a request without `tools`, so when no
+   * tools are offered (e.g. the agent loop's final answer) earlier calls and
+   * results are written out as text instead.
+   */
+  private convertMessages(conversation: ChatMessage[], hasTools: boolean): { system: string; messages: AnthropicMessage[] } {
+    const system = [this.createWordPressSystemMessage().content];
+    const messages: AnthropicMessage[] = [];
+
+    const append = (role: AnthropicMessage['role'], content: AnthropicContentBlock[]) => {
+      if (content.length === 0) return;
+      const last = messages[messages.length - 1];
+      if (last?.role === role) {
+        last.content.push(...content);
+      } else {
+        messages.push({ role, content });
+      }
+    };
+
+    for (const message of conversation) {
+      if (message.role === 'system') {
+        system.push(withAttachments(message));
+      } else if (message.role === 'user') {
+        append('user', [{ type: 'text', text: withAttachments(message) || ' ' }]);
+      } else if (message.role === 'assistant') {
+        const content: AnthropicContentBlock[] = [];
+        if (message.content.trim()) {
+          content.push({ type: 'text', text: message.content });
+        }
+        for (const call of message.toolCalls || []) {
+          content.push(hasTools
+            ? { type: 'tool_use', id: call.id, name: this.toFunctionName(call.name), input: call.arguments }
+            : { type: 'text', text: `[Called tool ${call.name} (${call.id}) with ${JSON.stringify(call.arguments)}]` });
+        }
+        append('assistant', content);
+
+        append('user', (message.toolResults || []).map((result): AnthropicContentBlock => hasTools
+          ? {
+            type: 'tool_result',
+            tool_use_id: result.id,
+            content: result.error || JSON.stringify(result.result),
+            is_error: result.error ? true : undefined,
+          }
+          : {
+            type: 'text',
+            text: `[${result.error ? 'Error from' : 'Result of'} tool call ${result.id}: ${result.error || JSON.stringify(result.result)}]`,
+          }));
+      }
+    }
+
+    // The conversation must open with a user turn
+    while (messages.length > 0 && messages[0].role !== 'user') {
+      messages.shift();
+    }
+
+    return { system: system.join('\n\n'), messages };
+  }
+
+  private parseToolUse(id: string, name: string, json: string): ToolCall {
+    try {
+      return this.toToolCall(id, name, json ? JSON.parse(json) : {});
+    } catch (error) {
+      const toolCall = this.toToolCall(id, name, {});
+      const reason = error instanceof Error ? error.message : String(error);
+      toolCall.validationError = `arguments are not valid JSON (${reason}): ${json}`;
+      return toolCall;
+    }
+  }
+
+  private convertUsage(inputTokens: number, outputTokens: number): TokenUsage {
+    return {
+      promptTokens: inputTokens,
+      completionTokens: outputTokens,
+      totalTokens: inputTokens + outputTokens,
+    };
+  }
+}
@@ -0,0 +1,290 @@
+import {
+  AbortError,
+  AssistantResponse,
+  ChatCompletionMessage,
+  ChatMessage,
+  ConversationSettings,
+  LLMDebugEntry,
+  LLMError,
+  LLMProviderId,
+  MCPTool,
+  StreamChunk,
+  ToolCall,
+  WordPressConfig
+} from './types';
+import {
+  DEFAULT_SYSTEM_PROMPT_TEMPLATE,
+  SystemPromptContext,
+  renderSystemPrompt,
+  buildSystemPromptValues
+} from './system-prompt';
+import { TranslatedTool, sanitizeFunctionName, translateTools } from './tool-schema';
+import { DebugLog } from './debug-log';
+
+export const DEFAULT_TEMPERATURE = 0.7;
+export const DEFAULT_MAX_TOKENS = 2000;
+
+/**
+ * A message for a plain text completion without tools, e.g. a summary
+ */
+export interface TextCompletionMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+export interface TextCompletionOptions {
+  model?: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+/**
+ * A chat model backend. Each adapter translates the conversation and MCP
+ * tools into its API's format and normalizes replies, streamed chunks and
+ * tool calls back into AssistantResponse, StreamChunk and ToolCall.
+ */
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  readonly defaultModel: string;
+  setConversationSettings(settings: ConversationSettings): void;
+  setSystemPromptContext(context: Partial<SystemPromptContext>): void;
+  /** Record every request and its outcome, for the debug inspector */
+  setDebugLog(debugLog: DebugLog | undefined): void;
+  createWordPressSystemMessage(): ChatCompletionMessage;
+  /** Tool definitions as sent to the API, for token estimates */
+  convertTools(tools: MCPTool[]): unknown[];
+  sendMessages(conversation: ChatMessage[], tools?: MCPTool[], signal?: AbortSignal): Promise<AssistantResponse>;
+  streamMessages(
+    conversation: ChatMessage[],
+    tools: MCPTool[],
+    onChunk: (chunk: StreamChunk) => void,
+    signal?: AbortSignal
+  ): Promise<AssistantResponse>;
+  completeText(messages: TextCompletionMessage[], options: TextCompletionOptions, signal?: AbortSignal): Promise<string>;
+  getAvailableModels(): Promise<string[]>;
+}
+
+/**
+ * Conversation settings, system prompt and tool naming shared by the
+ * provider adapters
+ */
+export abstract class BaseLLMClient implements LLMProvider {
+  abstract readonly id: LLMProviderId;
+  abstract readonly defaultModel: string;
+
+  protected conversationSettings: ConversationSettings = {};
+  protected systemPromptContext: SystemPromptContext = {
+    template: DEFAULT_SYSTEM_PROMPT_TEMPLATE,
+    tools: [],
+  };
+  // Tools offered in the latest request, keyed by their function name
+  protected offeredTools = new Map<string, TranslatedTool>();
+  protected debugLog?: DebugLog;
+
+  constructor(protected wpConfig: WordPressConfig) {}
+
+  abstract sendMessages(conversation: ChatMessage[], tools?: MCPTool[], signal?: AbortSignal): Promise<AssistantResponse>;
+
+  abstract streamMessages(
+    conversation: ChatMessage[],
+    tools: MCPTool[],
+    onChunk: (chunk: StreamChunk) => void,
+    signal?: AbortSignal
+  ): Promise<AssistantResponse>;
+
+  abstract completeText(
+    messages: TextCompletionMessage[],
+    options: TextCompletionOptions,
+    signal?: AbortSignal
+  ): Promise<string>;
+
+  abstract convertTools(tools: MCPTool[]): unknown[];
+
+  abstract getAvailableModels(): Promise<string[]>;
+
+  /**
+   * Set the per-conversation overrides applied to every subsequent request
+   */
+  setConversationSettings(settings: ConversationSettings): void {
+    this.conversationSettings = { ...settings };
+  }
+
+  /**
+   * Update the template, site info or tool list used to render the system prompt
+   */
+  setSystemPromptContext(context: Partial<SystemPromptContext>): void {
+    this.systemPromptContext = { ...this.systemPromptContext, ...context };
+  }
+
+  setDebugLog(debugLog: DebugLog | undefined): void {
+    this.debugLog = debugLog;
+  }
+
+  /**
+   * Create a system message for WordPress context.
+   *
+   * A per-conversation system prompt replaces the site-wide template; both
+   * are rendered with the same placeholders.
+   */
+  createWordPressSystemMessage(): ChatCompletionMessage {
+    const { template, siteInfo, tools } = this.systemPromptContext;
+
+    return {
+      role: 'system',
+      content: renderSystemPrompt(
+        this.conversationSettings.systemPrompt || template,
+        buildSystemPromptValues(this.wpConfig, siteInfo, tools)
+      ),
+    };
+  }
+
+  protected get model(): string {
+    return this.conversationSettings.model || this.defaultModel;
+  }
+
+  protected get temperature(): number {
+    return this.conversationSettings.temperature ?? DEFAULT_TEMPERATURE;
+  }
+
+  protected get maxTokens(): number {
+    return this.conversationSettings.maxTokens ?? DEFAULT_MAX_TOKENS;
+  }
+
+  /**
+   * Give MCP tools valid, unique function names. Strict schemas are an
+   * OpenAI feature, so other providers get the full schema.
+   */
+  protected translateTools(tools: MCPTool[]): Map<string, TranslatedTool> {
+    return translateTools(tools, false);
+  }
+
+  /**
+   * Function name of an MCP tool, as offered in the current request
+   */
+  protected toFunctionName(toolName: string): string {
+    for (const [functionName, translated] of this.offeredTools) {
+      if (translated.tool.name === toolName) {
+        return functionName;
+      }
+    }
+    return sanitizeFunctionName(toolName);
+  }
+
+  /**
+   * MCP tool name for a function name offered in the current request
+   */
+  protected toolName(functionName: string): string {
+    return this.offeredTools.get(functionName)?.tool.name ?? functionName;
+  }
+
+  /**
+   * Build a ToolCall from a provider's already-decoded arguments
+   */
+  protected toToolCall(id: string, functionName: string, args: unknown): ToolCall {
+    const toolCall: ToolCall = {
+      id,
+      name: this.toolName(functionName),
+      arguments: {},
+    };
+
+    if (typeof args === 'object' && args !== null && !Array.isArray(args)) {
+      toolCall.arguments = args as Record<string, any>;
+    } else if (args !== undefined && args !== null) {
+      // Reported back to the model by the agent loop instead of failing the turn
+      toolCall.validationError = `arguments must be a JSON object: ${JSON.stringify(args)}`;
+    }
+
+    return toolCall;
+  }
+
+  /**
+   * POST or GET through the WordPress AI proxy, turning REST errors into
+   * LLMError. The nonce is read on every request because the MCP client
+   * refreshes it in the shared config when it goes stale.
+   */
+  protected async fetchProxy(path: string, body?: unknown, signal?: AbortSignal): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.wpConfig.restUrl}ai/${path}`, {
+        method: body === undefined ? 'GET' : 'POST',
+        credentials: 'same-origin',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-WP-Nonce': this.wpConfig.nonce,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new AbortError();
+      }
+      throw new LLMError(error instanceof Error ? error.message : String(error), this.id);
+    }
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new LLMError(
+        data.message || `${this.id} request failed with status ${response.status}`,
+        this.id,
+        response.status,
+        data.code
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Run a request, recording the body as sent to the provider and the
+   * normalized response in the debug log when one is set
+   */
+  protected async recordRequest<T extends AssistantResponse | string>(
+    operation: LLMDebugEntry['operation'],
+    request: { model?: string },
+    run: () => Promise<T>
+  ): Promise<T> {
+    if (!this.debugLog) {
+      return run();
+    }
+
+    const startedAt = Date.now();
+    const entryId = this.debugLog.add({
+      kind: 'llm',
+      provider: this.id,
+      model: request.model || this.model,
+      operation,
+      startedAt,
+      request,
+    });
+
+    try {
+      const response = await run();
+      this.debugLog.update(entryId, {
+        durationMs: Date.now() - startedAt,
+        response,
+        ...(typeof response === 'string' ? {} : { finishReason: response.finishReason, usage: response.usage }),
+      });
+      return response;
+    } catch (error) {
+      this.debugLog.update(entryId, {
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Rethrow an error from a request as AbortError or LLMError
+   */
+  protected toLLMError(error: unknown, signal?: AbortSignal): Error {
+    if (signal?.aborted || error instanceof AbortError) {
+      return new AbortError();
+    }
+    if (error instanceof LLMError) {
+      return error;
+    }
+    return new LLMError(error instanceof Error ? error.message : String(error), this.id);
+  }
+}
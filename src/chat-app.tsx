@@ -2,29 +2,84 @@ import { useState, useEffect, useRef } from 'react';
 import { Chat } from '@/components/chat/chat';
 import { Button } from '@/components/ui/button';
 import { 
+  AbortError,
   ChatMessage, 
-  ToolResult, 
+  ChatSession,
+  ConversationSettings,
+  LLMProviderId,
   WordPressConfig, 
   PluginSettings,
-  MCPTool 
+  MCPTool,
+  MCPResource,
+  MCPPrompt,
+  MCPEvent,
+  MCPServerState,
+  MonthlyUsage,
+  MessageAttachment,
+  SiteInfo,
+  ToolApprovalDecision,
+  ToolResult
 } from './types';
-import { WordPressMCPClient } from './mcp-client';
-import { CloudflareOpenAIClient } from './openai-client';
-import { Settings, RefreshCw, Zap, Database } from 'lucide-react';
+import { MCPClientManager, summarizeConnectionStatus } from './mcp-client-manager';
+import { LOCAL_SITE_ID, getSiteServers } from './remote-sites';
+import { DebugLog, recordToolCalls } from './debug-log';
+import { fetchMonthlyUsage, formatCost, summarizeSessionUsage } from './usage';
+import { LLMProvider, DEFAULT_TEMPERATURE, DEFAULT_MAX_TOKENS } from './base-llm-client';
+import { createLLMProvider, resolveProvider, LLM_PROVIDER_LABELS } from './llm-providers';
+import { runAgentLoop, toToolResult, describeToolError, ToolApprovalGate, DEFAULT_MAX_ITERATIONS, DEFAULT_MAX_TOOL_CALLS, DEFAULT_MAX_PARALLEL_TOOL_CALLS } from './agent-loop';
+import { toolRequiresApproval } from './tool-approval';
+import { DEFAULT_SYSTEM_PROMPT_TEMPLATE, parseSiteInfoResult } from './system-prompt';
+import { ChatSessionClient } from './session-client';
+import { ConversationContextManager } from './context-manager';
+import { createResourceAttachment, resourceContentToText, withResourceTool } from './resource-tools';
+import { promptResultToMessages } from './prompts';
+import { SessionSidebar } from '@/components/chat/session-sidebar';
+import { ConversationSettingsPanel } from '@/components/chat/conversation-settings-panel';
+import { ResourceBrowser } from '@/components/chat/resource-browser';
+import { ServerInfoPanel } from '@/components/chat/server-info-panel';
+import { ServerStatusList } from '@/components/chat/server-status-list';
+import { DebugPanel } from '@/components/chat/debug-panel';
+import { ToolRunner } from '@/components/chat/tool-runner';
+import { Settings, RefreshCw, Zap, Database, PanelLeft, SlidersHorizontal, Library, Info, Bug } from 'lucide-react';
 
 interface ChatAppProps {
   config: WordPressConfig;
 }
 
+interface PendingApproval {
+  toolName: string;
+  resolve: (decision: ToolApprovalDecision) => void;
+}
+
 export function ChatApp({ config }: ChatAppProps) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [settings, setSettings] = useState<PluginSettings | null>(null);
-  const [mcpClient] = useState(() => new WordPressMCPClient(config));
-  const [openaiClient, setOpenaiClient] = useState<CloudflareOpenAIClient | null>(null);
-  const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected'>('disconnected');
+  // LLM requests and MCP messages are only recorded on sites with WP_DEBUG on
+  const [debugLog] = useState(() => config.isDebug ? new DebugLog() : undefined);
+  const [showDebug, setShowDebug] = useState(false);
+  const [monthlyUsage, setMonthlyUsage] = useState<MonthlyUsage | null>(null);
+  const [mcpClient] = useState(() => new MCPClientManager(config, debugLog));
+  const [llmClient, setLlmClient] = useState<LLMProvider | null>(null);
+  const [serverStates, setServerStates] = useState<MCPServerState[]>([]);
   const [tools, setTools] = useState<MCPTool[]>([]);
-  const [sessionId] = useState(() => {
+  const [resources, setResources] = useState<MCPResource[]>([]);
+  const [prompts, setPrompts] = useState<MCPPrompt[]>([]);
+  const [showServerInfo, setShowServerInfo] = useState(false);
+  const [showResources, setShowResources] = useState(false);
+  const [activeTab, setActiveTab] = useState<'chat' | 'tools'>('chat');
+  const [pendingAttachments, setPendingAttachments] = useState<MessageAttachment[]>([]);
+  const [siteInfo, setSiteInfo] = useState<SiteInfo | undefined>(undefined);
+  const [sessionClient] = useState(() => new ChatSessionClient(config));
+  const [contextManager] = useState(() => new ConversationContextManager());
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [sessionSearch, setSessionSearch] = useState('');
+  const [showSessions, setShowSessions] = useState(true);
+  const [conversationSettings, setConversationSettings] = useState<ConversationSettings>({});
+  const [showConversationSettings, setShowConversationSettings] = useState(false);
+  const [availableModels, setAvailableModels] = useState<string[]>([]);
+  const [siteId, setSiteId] = useState(() => localStorage.getItem('wp_mcp_site_id') || LOCAL_SITE_ID);
+  const [sessionId, setSessionId] = useState(() => {
     // Try to restore session ID from localStorage, or create a new one
     const storedSessionId = localStorage.getItem('wp_mcp_session_id');
     if (storedSessionId) {
@@ -35,36 +90,138 @@ export function ChatApp({ config }: ChatAppProps) {
     return newSessionId;
   });
   const abortControllerRef = useRef<AbortController | null>(null);
+  const pendingApprovalsRef = useRef<Map<string, PendingApproval>>(new Map());
+  const sessionAllowedToolsRef = useRef<Set<string>>(new Set());
+  const saveSettingsTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  // Load settings and chat history on mount
+  // Load settings on mount
   useEffect(() => {
     loadSettings();
-    loadChatHistory();
   }, []);
 
-  // Initialize OpenAI client when settings change
+  // Load chat history and generation settings whenever the active session changes
+  useEffect(() => {
+    let isCurrent = true;
+    contextManager.reset();
+    loadChatHistory(sessionId, () => isCurrent);
+    sessionClient.getSession(sessionId).then(session => {
+      if (isCurrent) {
+        setConversationSettings(session?.settings || {});
+      }
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [sessionId]);
+
+  // The proxy records usage, so refresh the monthly total once a turn is done
   useEffect(() => {
-    if (!settings) return;
-
-    // Check if AI is configured using masked settings values.
-    // The actual API keys are never sent to the client for security.
-    // All AI requests go through the server-side proxy which has the real keys.
-    const hasOpenAIKey = settings.openai_api_key === '***';
-    const hasCloudflareGateway = settings.cloudflare_gateway_url && settings.cloudflare_gateway_url.trim() !== '';
-
-    if (hasOpenAIKey || hasCloudflareGateway) {
-      setOpenaiClient(new CloudflareOpenAIClient(config));
-    } else {
-      setOpenaiClient(null);
+    if (!isLoading) {
+      fetchMonthlyUsage(config).then(setMonthlyUsage).catch(error => {
+        console.error('Failed to load usage:', error);
+      });
     }
-  }, [settings, config]);
+  }, [isLoading, config]);
+
+  // Refresh the conversation list when the search changes
+  useEffect(() => {
+    const timeout = setTimeout(() => loadSessions(sessionSearch), 250);
+    return () => clearTimeout(timeout);
+  }, [sessionSearch]);
+
+  // The server reports which providers have credentials; the API keys are
+  // never sent to the client and all AI requests go through its proxy
+  const configuredProviders = settings?.ai_providers || [];
+  const providerId = resolveProvider(conversationSettings.provider, configuredProviders);
+
+  // Create the client for the conversation's provider
+  useEffect(() => {
+    const client = providerId ? createLLMProvider(providerId, config) : null;
+    client?.setDebugLog(debugLog);
+    setLlmClient(client);
+  }, [providerId, config, debugLog]);
 
-  // Initialize MCP client
+
+  // Apply the conversation's generation settings to every request
+  useEffect(() => {
+    llmClient?.setConversationSettings(conversationSettings);
+  }, [llmClient, conversationSettings]);
+
+  // Server tools plus the client-side read_resource tool
+  const agentTools = withResourceTool(tools, resources);
+
+  // Costs are estimated from the same price table the server uses for budgets
+  const sessionUsage = summarizeSessionUsage(messages, settings?.model_prices || []);
+
+  // Keep the system prompt in sync with the configured template, site and tools
+  useEffect(() => {
+    llmClient?.setSystemPromptContext({
+      template: settings?.system_prompt || DEFAULT_SYSTEM_PROMPT_TEMPLATE,
+      siteInfo,
+      tools: withResourceTool(tools, resources),
+    });
+  }, [llmClient, settings, siteInfo, tools, resources]);
+
+  // Populate the model picker
+  useEffect(() => {
+    if (!llmClient) return;
+
+    let isCurrent = true;
+    setAvailableModels([]);
+    llmClient.getAvailableModels().then(models => {
+      if (isCurrent) {
+        setAvailableModels(models);
+      }
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [llmClient]);
+
+  // Pick up list_changed refreshes without reconnecting
+  useEffect(() => {
+    const handleToolsUpdated = (event: MCPEvent) => {
+      if (event.type === 'tools_updated') setTools(event.data);
+    };
+    const handleResourcesUpdated = (event: MCPEvent) => {
+      if (event.type === 'resources_updated') setResources(event.data);
+    };
+    const handlePromptsUpdated = (event: MCPEvent) => {
+      if (event.type === 'prompts_updated') setPrompts(event.data);
+    };
+
+    mcpClient.on('tools_updated', handleToolsUpdated);
+    mcpClient.on('resources_updated', handleResourcesUpdated);
+    mcpClient.on('prompts_updated', handlePromptsUpdated);
+    return () => {
+      mcpClient.off('tools_updated', handleToolsUpdated);
+      mcpClient.off('resources_updated', handleResourcesUpdated);
+      mcpClient.off('prompts_updated', handlePromptsUpdated);
+    };
+  }, [mcpClient]);
+
+  // Per-server connection status, including automatic reconnection
+  useEffect(() => {
+    const handleServersUpdated = (event: MCPEvent) => {
+      if (event.type === 'servers_updated') setServerStates(event.data);
+    };
+
+    mcpClient.on('servers_updated', handleServersUpdated);
+    return () => {
+      mcpClient.off('servers_updated', handleServersUpdated);
+    };
+  }, [mcpClient]);
+
+  const connectionStatus = summarizeConnectionStatus(serverStates);
+  const remoteSites = settings?.remote_sites || [];
+  const reconnectAttempt = serverStates.find(state => state.status === 'reconnecting')?.reconnectAttempt ?? 0;
+
+  // Initialize MCP client, and reconnect when another site is selected
   useEffect(() => {
     if (settings?.mcp_server_url) {
       initializeMCP();
     }
-  }, [settings]);
+  }, [settings, siteId]);
 
   const loadSettings = async () => {
     try {
@@ -85,77 +242,135 @@ export function ChatApp({ config }: ChatAppProps) {
     }
   };
 
-  const loadChatHistory = async () => {
+  const loadChatHistory = async (id: string, isCurrent: () => boolean) => {
     try {
-      const response = await fetch(`${config.restUrl}chat/history?session_id=${sessionId}&limit=50`, {
-        headers: {
-          'X-WP-Nonce': config.nonce,
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success && data.history && data.history.length > 0) {
-          const loadedMessages: ChatMessage[] = data.history.map((item: any) => ({
-            id: item.id || `loaded-${Date.now()}-${Math.random()}`,
-            role: item.role as 'user' | 'assistant',
-            content: item.content,
-            timestamp: new Date(item.timestamp),
-          }));
-          setMessages(loadedMessages);
-        }
+      const loadedMessages = await sessionClient.loadHistory(id);
+      // Ignore responses for a session the user already switched away from
+      if (isCurrent() && loadedMessages.length > 0) {
+        setMessages(loadedMessages);
       }
     } catch (error) {
       console.error('Failed to load chat history:', error);
     }
   };
 
-  const saveMessage = async (content: string, role: 'user' | 'assistant') => {
+  const loadSessions = async (search = sessionSearch) => {
     try {
-      await fetch(`${config.restUrl}chat`, {
-        method: 'POST',
-        headers: {
-          'X-WP-Nonce': config.nonce,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message: content,
-          session_id: sessionId,
-          role: role,
-        }),
-      });
+      setSessions(await sessionClient.listSessions(search));
+    } catch (error) {
+      console.error('Failed to load chat sessions:', error);
+    }
+  };
+
+  const saveMessage = async (message: ChatMessage) => {
+    try {
+      await sessionClient.saveMessage(sessionId, message);
     } catch (error) {
       console.error('Failed to save message:', error);
     }
   };
 
+  const switchSession = (id: string) => {
+    if (id === sessionId || isLoading) return;
+
+    localStorage.setItem('wp_mcp_session_id', id);
+    sessionAllowedToolsRef.current.clear();
+    setMessages([createWelcomeMessage()]);
+    setSessionId(id);
+  };
+
+  const updateConversationSettings = (next: ConversationSettings) => {
+    setConversationSettings(next);
+
+    // Debounce persistence so dragging the temperature slider doesn't flood the API
+    if (saveSettingsTimeoutRef.current) {
+      clearTimeout(saveSettingsTimeoutRef.current);
+    }
+    const id = sessionId;
+    saveSettingsTimeoutRef.current = setTimeout(() => {
+      sessionClient.updateSessionSettings(id, next).catch(error => {
+        console.error('Failed to save conversation settings:', error);
+      });
+    }, 500);
+  };
+
+  // Tools, resources and "always allow" choices belong to the previous site
+  const switchSite = (id: string) => {
+    if (id === siteId || isLoading) return;
+
+    localStorage.setItem('wp_mcp_site_id', id);
+    sessionAllowedToolsRef.current.clear();
+    setPendingAttachments([]);
+    setTools([]);
+    setResources([]);
+    setPrompts([]);
+    setSiteInfo(undefined);
+    setSiteId(id);
+  };
+
+  const handleNewSession = () => {
+    switchSession(crypto.randomUUID());
+  };
+
+  const handleRenameSession = async (id: string, title: string) => {
+    try {
+      await sessionClient.renameSession(id, title);
+      setSessions(prev => prev.map(session => session.id === id ? { ...session, title } : session));
+    } catch (error) {
+      console.error('Failed to rename chat session:', error);
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    try {
+      await sessionClient.deleteSession(id);
+      setSessions(prev => prev.filter(session => session.id !== id));
+      if (id === sessionId) {
+        handleNewSession();
+      }
+    } catch (error) {
+      console.error('Failed to delete chat session:', error);
+    }
+  };
+
+  // Site details feed the system prompt; a failure here should not block the chat
+  const loadSiteInfo = async (availableTools: MCPTool[], primaryServerId: string): Promise<SiteInfo | undefined> => {
+    // Other servers and remote sites have their own get-site-info; the prompt describes the primary one
+    const siteInfoTool = availableTools.find(tool => tool.serverId === primaryServerId && tool.name.endsWith('get-site-info'));
+    if (!siteInfoTool) return undefined;
+
+    try {
+      const result = await mcpClient.callTool(siteInfoTool.name);
+      return result.isError ? undefined : parseSiteInfoResult(result.content);
+    } catch (error) {
+      console.warn('Failed to load site info for the system prompt:', error);
+      return undefined;
+    }
+  };
+
   const initializeMCP = async () => {
     if (!settings?.mcp_server_url) return;
 
     try {
-      setConnectionStatus('connecting');
-      
-      await mcpClient.connect(settings.mcp_server_url);
-      await mcpClient.initialize();
+      const servers = getSiteServers(settings, siteId, config);
+      await mcpClient.connect(servers);
       
-      const availableTools = await mcpClient.listTools();
+      const availableTools = mcpClient.getTools();
       setTools(availableTools);
-      
-      setConnectionStatus('connected');
+      setResources(mcpClient.getResources());
+      setPrompts(mcpClient.getPrompts());
+      setSiteInfo(await loadSiteInfo(availableTools, servers[0].id));
       
       // Add welcome message
       if (messages.length === 0) {
-        const welcomeMessage: ChatMessage = {
-          id: `system-${Date.now()}`,
-          role: 'assistant',
-          content: 'How can I help you?',
-          timestamp: new Date(),
-        };
-        setMessages([welcomeMessage]);
+        setMessages([createWelcomeMessage()]);
       }
     } catch (error) {
+      if (error instanceof AbortError) {
+        return; // Another site was selected while connecting
+      }
+
       console.error('Failed to initialize MCP:', error);
-      setConnectionStatus('disconnected');
       
       const errorMessage: ChatMessage = {
         id: `error-${Date.now()}`,
@@ -176,103 +391,100 @@ Please check your settings and ensure the WordPress MCP Adapter is installed and
   };
 
   const handleSendMessage = async (content: string) => {
-    if (!openaiClient) {
+    const userMessage: ChatMessage = {
+      id: `user-${Date.now()}`,
+      role: 'user',
+      content,
+      timestamp: new Date(),
+      attachments: pendingAttachments.length > 0 ? pendingAttachments : undefined,
+    };
+
+    setPendingAttachments([]);
+    await runTurn([userMessage]);
+  };
+
+  // Insert the rendered prompt; if it ends with a user message the model answers it
+  const handleRunPrompt = async (prompt: MCPPrompt, args: Record<string, string>) => {
+    try {
+      const promptMessages = promptResultToMessages(await mcpClient.getPrompt(prompt.name, args));
+      if (promptMessages.length === 0) return;
+
+      if (promptMessages[promptMessages.length - 1].role === 'user') {
+        await runTurn(promptMessages);
+      } else {
+        setMessages(prev => [...prev, ...promptMessages]);
+        persistMessages(promptMessages, !messages.some(m => m.role === 'user'));
+      }
+    } catch (error: any) {
       const errorMessage: ChatMessage = {
         id: `error-${Date.now()}`,
         role: 'assistant',
-        content: '❌ **OpenAI Configuration Required**\n\nPlease configure your OpenAI API key in the plugin settings to start chatting.',
+        content: `❌ **Prompt failed**: ${error.message || `Could not load the "${prompt.name}" prompt.`}`,
         timestamp: new Date(),
       };
       setMessages(prev => [...prev, errorMessage]);
-      return;
     }
+  };
 
-    const userMessage: ChatMessage = {
-      id: `user-${Date.now()}`,
-      role: 'user',
-      content,
-      timestamp: new Date(),
-    };
+  // Save messages in order; the server titles a session from its first message
+  const persistMessages = async (newMessages: ChatMessage[], isFirstMessage: boolean) => {
+    for (const message of newMessages) {
+      await saveMessage(message);
+    }
+    if (isFirstMessage) {
+      loadSessions();
+    }
+  };
+
+  // Append messages ending in a user turn and let the model respond
+  const runTurn = async (newMessages: ChatMessage[]) => {
+    if (!llmClient) {
+      const errorMessage: ChatMessage = {
+        id: `error-${Date.now()}`,
+        role: 'assistant',
+        content: '❌ **AI Provider Required**\n\nPlease configure an OpenAI, Anthropic, Gemini or local model server in the plugin settings to start chatting.',
+        timestamp: new Date(),
+      };
+      setMessages(prev => [...prev, errorMessage]);
+      return;
+    }
 
-    setMessages(prev => [...prev, userMessage]);
-    saveMessage(content, 'user'); // Persist user message
+    setMessages(prev => [...prev, ...newMessages]);
+    persistMessages(newMessages, !messages.some(m => m.role === 'user'));
     setIsLoading(true);
 
     // Create abort controller for this request
     abortControllerRef.current = new AbortController();
 
     try {
-      // Get recent message context (last 10 messages)
-      const recentMessages = [...messages, userMessage].slice(-10);
-      
-      // Send message to AI with available MCP tools
-      const response = await openaiClient.sendMessage(
-        content,
-        recentMessages,
-        tools
-      );
-
-      let assistantMessage: ChatMessage = {
-        id: `assistant-${Date.now()}`,
-        role: 'assistant',
-        content: response.message,
-        timestamp: new Date(),
-        toolCalls: response.toolCalls,
-      };
-
-      // If there are tool calls, execute them
-      if (response.toolCalls && response.toolCalls.length > 0) {
-        const toolResults: ToolResult[] = [];
-
-        for (const toolCall of response.toolCalls) {
-          try {
-            const result = await mcpClient.callTool(toolCall.name, toolCall.arguments);
-            toolResults.push({
-              id: toolCall.id,
-              result: result.content,
-            });
-          } catch (error) {
-            toolResults.push({
-              id: toolCall.id,
-              result: null,
-              error: error instanceof Error ? error.message : String(error),
-            });
-          }
-        }
-
-        assistantMessage.toolResults = toolResults;
-
-        // Send tool results back to AI to generate a natural language summary
-        if (toolResults.some(r => !r.error)) {
-          try {
-            // Format tool results as a message the AI can understand
-            const toolResultsSummary = toolResults.map(r => {
-              if (r.error) {
-                return `Tool ${r.id} failed: ${r.error}`;
-              }
-              const resultText = Array.isArray(r.result)
-                ? r.result.map((item: any) => item.text || JSON.stringify(item)).join('\n')
-                : JSON.stringify(r.result);
-              return resultText;
-            }).join('\n\n');
-
-            const followUpResponse = await openaiClient.sendMessage(
-              `Here are the results from the tool execution:\n\n${toolResultsSummary}\n\nPlease provide a helpful summary of these results for the user.`,
-              recentMessages.slice(0, -1), // Context without tools
-              [] // No tools needed for summary
-            );
-
-            if (followUpResponse.message.trim()) {
-              assistantMessage.content = followUpResponse.message;
-            }
-          } catch (followUpError) {
-            console.error('Follow-up response failed:', followUpError);
-          }
-        }
-      }
+      // Fit the history into the model's context window, summarizing older turns if needed
+      const context = await contextManager.buildContext([...messages, ...newMessages], {
+        llmClient,
+        model: conversationSettings.model || llmClient.defaultModel,
+        maxTokens: conversationSettings.maxTokens ?? DEFAULT_MAX_TOKENS,
+        tools: agentTools,
+        signal: abortControllerRef.current.signal,
+      });
 
-      setMessages(prev => [...prev, assistantMessage]);
-      saveMessage(assistantMessage.content, 'assistant'); // Persist assistant message
+      // Let the model call tools until it produces a final answer or hits the turn budget
+      await runAgentLoop(context, {
+        llmClient,
+        mcpClient,
+        tools: agentTools,
+        maxIterations: settings?.agent_max_iterations || DEFAULT_MAX_ITERATIONS,
+        maxToolCalls: settings?.agent_max_tool_calls || DEFAULT_MAX_TOOL_CALLS,
+        maxParallelToolCalls: settings?.agent_max_parallel_tool_calls || DEFAULT_MAX_PARALLEL_TOOL_CALLS,
+        signal: abortControllerRef.current.signal,
+        approval: toolApprovalGate,
+        onEvent: debugLog && recordToolCalls(debugLog),
+        onMessage: (assistantMessage) => {
+          setMessages(prev => upsertMessage(prev, assistantMessage));
+        },
+        onMessageComplete: (assistantMessage) => {
+          setMessages(prev => upsertMessage(prev, assistantMessage));
+          saveMessage(assistantMessage); // Persist assistant message with its tool calls
+        },
+      });
     } catch (error: any) {
       if (error.name === 'AbortError') {
         return; // Request was cancelled
@@ -291,13 +503,66 @@ Please check your settings and ensure the WordPress MCP Adapter is installed and
     } finally {
       setIsLoading(false);
       abortControllerRef.current = null;
+      loadSessions();
+    }
+  };
+
+  const toolApprovalGate: ToolApprovalGate = {
+    needsApproval: (toolCall) => {
+      if (sessionAllowedToolsRef.current.has(toolCall.name)) {
+        return false;
+      }
+      const tool = agentTools.find(t => t.name === toolCall.name);
+      return toolRequiresApproval(tool, settings?.tool_approval_policy);
+    },
+    request: (toolCall) => new Promise(resolve => {
+      pendingApprovalsRef.current.set(toolCall.id, { toolName: toolCall.name, resolve });
+    }),
+  };
+
+  const handleAttachResource = async (resource: MCPResource) => {
+    try {
+      const attachment = await createResourceAttachment(mcpClient, resource);
+      setPendingAttachments(prev => [...prev.filter(a => a.uri !== attachment.uri), attachment]);
+    } catch (error) {
+      console.error('Failed to attach resource:', error);
+    }
+  };
+
+  const handleRemoveAttachment = (uri: string) => {
+    setPendingAttachments(prev => prev.filter(a => a.uri !== uri));
+  };
+
+  const readResourcePreview = async (resource: MCPResource) => {
+    return resourceContentToText(await mcpClient.readResource(resource.uri));
+  };
+
+  // Run a tool from the Tools tab, outside of any conversation
+  const runTool = async (tool: MCPTool, args: Record<string, any>): Promise<ToolResult> => {
+    try {
+      return toToolResult(`manual-${Date.now()}`, await mcpClient.callTool(tool.name, args));
+    } catch (error) {
+      return { id: `manual-${Date.now()}`, result: null, error: describeToolError(error) };
+    }
+  };
+
+  const handleToolApproval = (toolCallId: string, decision: ToolApprovalDecision) => {
+    const pending = pendingApprovalsRef.current.get(toolCallId);
+    if (!pending) return;
+
+    pendingApprovalsRef.current.delete(toolCallId);
+    if (decision.action === 'approve' && decision.alwaysAllow) {
+      sessionAllowedToolsRef.current.add(pending.toolName);
     }
+    pending.resolve(decision);
   };
 
   const handleStop = () => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
+    // The agent loop stops waiting on its own; drop the orphaned resolvers
+    pendingApprovalsRef.current.clear();
   };
 
   const refreshConnection = async () => {
@@ -309,6 +574,7 @@ Please check your settings and ensure the WordPress MCP Adapter is installed and
       case 'connected':
         return <Zap className="h-4 w-4 text-green-500" />;
       case 'connecting':
+      case 'reconnecting':
         return <RefreshCw className="h-4 w-4 text-yellow-500 animate-spin" />;
       case 'disconnected':
         return <Database className="h-4 w-4 text-red-500" />;
@@ -318,11 +584,13 @@ Please check your settings and ensure the WordPress MCP Adapter is installed and
   const getConnectionStatusText = () => {
     switch (connectionStatus) {
       case 'connected':
-        return `Connected • ${tools.length} tools available`;
+        return `Connected • ${tools.length} tools, ${resources.length} resources, ${prompts.length} prompts available`;
       case 'connecting':
-        return 'Connecting to MCP server...';
+        return serverStates.length > 1 ? 'Connecting to MCP servers...' : 'Connecting to MCP server...';
+      case 'reconnecting':
+        return `Connection lost • Reconnecting (attempt ${reconnectAttempt})...`;
       case 'disconnected':
-        return 'Disconnected from MCP server';
+        return serverStates.length > 1 ? 'Disconnected from all MCP servers' : 'Disconnected from MCP server';
     }
   };
 
@@ -331,6 +599,15 @@ Please check your settings and ensure the WordPress MCP Adapter is installed and
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b bg-background">
         <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowSessions(!showSessions)}
+            className="h-8 px-2"
+            title={showSessions ? 'Hide conversations' : 'Show conversations'}
+          >
+            <PanelLeft className="h-4 w-4" />
+          </Button>
           <div className="flex items-center gap-1">
             {getConnectionStatusIcon()}
             <span className="text-sm font-medium">MCP Chat</span>
@@ -338,14 +615,104 @@ Please check your settings and ensure the WordPress MCP Adapter is installed and
           <div className="text-xs text-muted-foreground">
             {getConnectionStatusText()}
           </div>
+          {serverStates.length > 1 && <ServerStatusList servers={serverStates} />}
         </div>
         
         <div className="flex items-center gap-2">
+          {remoteSites.length > 0 && (
+            <select
+              value={remoteSites.some(site => site.id === siteId) ? siteId : LOCAL_SITE_ID}
+              onChange={(e) => switchSite(e.target.value)}
+              disabled={isLoading}
+              className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+              title="WordPress site the assistant works on"
+            >
+              <option value={LOCAL_SITE_ID}>{settings?.mcp_servers?.[0]?.name || 'This site'} (this site)</option>
+              {remoteSites.map(site => (
+                <option key={site.id} value={site.id}>{site.name}</option>
+              ))}
+            </select>
+          )}
+
+          {configuredProviders.length > 1 && providerId && (
+            <select
+              value={providerId}
+              onChange={(e) => updateConversationSettings({
+                ...conversationSettings,
+                provider: e.target.value as LLMProviderId,
+                model: undefined, // Model names are provider-specific
+              })}
+              disabled={isLoading}
+              className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+              title="AI provider for this conversation"
+            >
+              {configuredProviders.map(id => (
+                <option key={id} value={id}>{LLM_PROVIDER_LABELS[id]}</option>
+              ))}
+            </select>
+          )}
+
+          {llmClient && (
+            <select
+              value={conversationSettings.model || llmClient.defaultModel}
+              onChange={(e) => updateConversationSettings({ ...conversationSettings, model: e.target.value })}
+              disabled={isLoading}
+              className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+              title="Model for this conversation"
+            >
+              {[...new Set([conversationSettings.model || llmClient.defaultModel, ...availableModels])].map(model => (
+                <option key={model} value={model}>{model}</option>
+              ))}
+            </select>
+          )}
+
+          <Button
+            variant={showServerInfo ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setShowServerInfo(!showServerInfo)}
+            className="h-8"
+            title="About this server"
+          >
+            <Info className="h-3 w-3" />
+          </Button>
+
+          <Button
+            variant={showResources ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setShowResources(!showResources)}
+            className="h-8"
+            title={showResources ? 'Hide resources' : 'Show resources'}
+          >
+            <Library className="h-3 w-3" />
+          </Button>
+
+          {debugLog && (
+            <Button
+              variant={showDebug ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => setShowDebug(!showDebug)}
+              className="h-8"
+              title={showDebug ? 'Hide debug inspector' : 'Show debug inspector'}
+            >
+              <Bug className="h-3 w-3" />
+            </Button>
+          )}
+
+          <Button
+            variant={showConversationSettings ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setShowConversationSettings(!showConversationSettings)}
+            className="h-8"
+            title="Conversation settings"
+          >
+            <SlidersHorizontal className="h-3 w-3" />
+          </Button>
+
           <Button
             variant="outline"
             size="sm"
             onClick={refreshConnection}
-            disabled={connectionStatus === 'connecting'}
+            disabled={connectionStatus === 'connecting' || connectionStatus === 'reconnecting'}
             className="h-8"
           >
             <RefreshCw className={`h-3 w-3 ${connectionStatus === 'connecting' ? 'animate-spin' : ''}`} />
@@ -363,27 +730,115 @@ Please check your settings and ensure the WordPress MCP Adapter is installed and
       </div>
 
       {/* Chat Interface */}
-      <div className="flex-1 overflow-hidden">
-        <Chat
-          messages={messages}
-          onSendMessage={handleSendMessage}
-          isLoading={isLoading}
-          onStop={handleStop}
-          disabled={!openaiClient || connectionStatus !== 'connected'}
-        />
+      <div className="flex flex-1 overflow-hidden">
+        {showSessions && (
+          <SessionSidebar
+            sessions={sessions}
+            activeSessionId={sessionId}
+            search={sessionSearch}
+            onSearchChange={setSessionSearch}
+            onNewSession={handleNewSession}
+            onSelectSession={switchSession}
+            onRenameSession={handleRenameSession}
+            onDeleteSession={handleDeleteSession}
+            disabled={isLoading}
+          />
+        )}
+        <div className="flex flex-1 flex-col overflow-hidden">
+          {showServerInfo && (serverStates.length > 0 ? serverStates : [null]).map(state => (
+            <ServerInfoPanel
+              key={state?.server.id ?? 'none'}
+              name={serverStates.length > 1 ? state?.server.name : undefined}
+              serverInfo={state?.status === 'connected' ? state.serverInfo : null}
+              endpoint={state?.server.url ?? config.mcpUrl}
+              counts={state?.counts ?? { tools: 0, resources: 0, prompts: 0 }}
+              error={state?.error}
+            />
+          ))}
+          {showConversationSettings && (
+            <ConversationSettingsPanel
+              settings={conversationSettings}
+              defaults={{ temperature: DEFAULT_TEMPERATURE, maxTokens: DEFAULT_MAX_TOKENS }}
+              onChange={updateConversationSettings}
+            />
+          )}
+          <div className="flex gap-1 border-b px-4 pt-2">
+            {(['chat', 'tools'] as const).map(tab => (
+              <button
+                key={tab}
+                type="button"
+                onClick={() => setActiveTab(tab)}
+                className={`-mb-px border-b-2 px-3 py-1.5 text-sm ${
+                  activeTab === tab ? 'border-primary font-medium' : 'border-transparent text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {tab === 'chat' ? 'Chat' : `Tools (${tools.length})`}
+              </button>
+            ))}
+          </div>
+          <div className="flex-1 overflow-hidden">
+            {activeTab === 'tools' ? (
+              <ToolRunner
+                tools={tools}
+                onRun={runTool}
+                disabled={connectionStatus !== 'connected'}
+              />
+            ) : (
+              <Chat
+                messages={messages}
+                onSendMessage={handleSendMessage}
+                isLoading={isLoading}
+                onStop={handleStop}
+                disabled={!llmClient || connectionStatus !== 'connected'}
+                onToolApproval={handleToolApproval}
+                attachments={pendingAttachments}
+                onRemoveAttachment={handleRemoveAttachment}
+                prompts={prompts}
+                onRunPrompt={handleRunPrompt}
+              />
+            )}
+          </div>
+        </div>
+        {showResources && (
+          <ResourceBrowser
+            resources={resources}
+            attachedUris={pendingAttachments.map(a => a.uri)}
+            onAttach={handleAttachResource}
+            onRead={readResourcePreview}
+            disabled={connectionStatus !== 'connected'}
+          />
+        )}
+        {debugLog && showDebug && (
+          <DebugPanel debugLog={debugLog} />
+        )}
       </div>
 
       {/* Status Bar */}
       <div className="px-4 py-2 border-t bg-muted/50 text-xs text-muted-foreground">
         <div className="flex items-center justify-between">
           <div>
-            {settings?.openai_api_key === '***' ? (
-              <span className="text-green-600">✓ OpenAI configured</span>
+            {providerId ? (
+              <span className="text-green-600">✓ {LLM_PROVIDER_LABELS[providerId]} configured</span>
             ) : (
-              <span className="text-orange-600">⚠ OpenAI API key required</span>
+              <span className="text-orange-600">⚠ AI provider required</span>
             )}
           </div>
           <div>
+            {sessionUsage.totalTokens > 0 && (
+              <span className="mr-2">
+                Session: {sessionUsage.totalTokens.toLocaleString()} tokens
+                {sessionUsage.cost !== null && ` (~${formatCost(sessionUsage.cost)})`} •
+              </span>
+            )}
+            {monthlyUsage && monthlyUsage.requests > 0 && (
+              <span
+                className={monthlyUsage.budget > 0 && monthlyUsage.cost >= monthlyUsage.budget ? 'mr-2 text-destructive' : 'mr-2'}
+                title={`${monthlyUsage.promptTokens.toLocaleString()} input and ${monthlyUsage.completionTokens.toLocaleString()} output tokens in ${monthlyUsage.requests} requests`}
+              >
+                This month: ~{formatCost(monthlyUsage.cost)}
+                {monthlyUsage.budget > 0 && ` of ${formatCost(monthlyUsage.budget)}`} •
+              </span>
+            )}
             Messages: {messages.filter(m => m.role !== 'system').length}
             {settings?.chat_history_enabled && (
               <span className="ml-2">• History enabled</span>
@@ -395,4 +850,29 @@ Please check your settings and ensure the WordPress MCP Adapter is installed and
   );
 }
 
+/**
+ * Greeting shown at the top of a fresh conversation
+ */
+function createWelcomeMessage(): ChatMessage {
+  return {
+    id: `system-${Date.now()}`,
+    role: 'assistant',
+    content: 'How can I help you?',
+    timestamp: new Date(),
+  };
+}
+
+/**
+ * Replace a message with the same id, or append it
+ */
+function upsertMessage(messages: ChatMessage[], message: ChatMessage): ChatMessage[] {
+  const index = messages.findIndex(m => m.id === message.id);
+  if (index === -1) {
+    return [...messages, message];
+  }
+  const next = [...messages];
+  next[index] = message;
+  return next;
+}
+
 export default ChatApp;
\ No newline at end of file
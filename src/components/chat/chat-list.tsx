@@ -1,14 +1,16 @@
 import { useRef, useEffect } from 'react'
 import { ChatMessage as ChatMessageComponent } from './chat-message'
-import { ChatMessage } from '@/types'
+import { ChatMessage, ToolApprovalDecision } from '@/types'
 
 interface ChatListProps {
   messages: ChatMessage[]
   isLoading?: boolean
+  onToolApproval?: (toolCallId: string, decision: ToolApprovalDecision) => void
 }
 
-export function ChatList({ messages, isLoading }: ChatListProps) {
+export function ChatList({ messages, isLoading, onToolApproval }: ChatListProps) {
   const bottomRef = useRef<HTMLDivElement>(null)
+  const isStreaming = messages.some((message) => message.isStreaming)
 
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' })
@@ -19,9 +21,13 @@ export function ChatList({ messages, isLoading }: ChatListProps) {
       {messages.length > 0 ? (
         <div className="pb-4 px-4">
           {messages.map((message) => (
-            <ChatMessageComponent key={message.id} message={message} />
+            <ChatMessageComponent
+              key={message.id}
+              message={message}
+              onToolApproval={onToolApproval}
+            />
           ))}
-          {isLoading && (
+          {isLoading && !isStreaming && (
             <div className="flex justify-center py-4">
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <div className="h-2 w-2 animate-pulse rounded-full bg-current" />
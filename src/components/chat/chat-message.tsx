@@ -1,13 +1,17 @@
 import { cn } from '@/lib/utils'
-import { SimpleMarkdown } from '../ui/simple-markdown'
-import { ChatMessage as ChatMessageType } from '@/types'
+import { Markdown } from '../ui/markdown'
+import { ToolApprovalCard } from './tool-approval-card'
+import { ToolResultView } from './tool-result-view'
+import { ChatMessage as ChatMessageType, ToolApprovalDecision, ToolCall } from '@/types'
+import { Paperclip, RefreshCw } from 'lucide-react'
 
 interface ChatMessageProps {
   message: ChatMessageType
   className?: string
+  onToolApproval?: (toolCallId: string, decision: ToolApprovalDecision) => void
 }
 
-export function ChatMessage({ message, className }: ChatMessageProps) {
+export function ChatMessage({ message, className, onToolApproval }: ChatMessageProps) {
   return (
     <div
       className={cn(
@@ -30,25 +34,62 @@ export function ChatMessage({ message, className }: ChatMessageProps) {
         )}
       </div>
       <div className="flex-1 space-y-2 overflow-hidden">
-        <SimpleMarkdown
+        <Markdown
           content={message.content}
           className="prose prose-sm max-w-none dark:prose-invert"
         />
+        {message.isStreaming && (
+          <span className="inline-block h-4 w-2 animate-pulse bg-current align-middle" />
+        )}
+
+        {message.attachments && message.attachments.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {message.attachments.map((attachment) => (
+              <span
+                key={attachment.uri}
+                className="inline-flex items-center gap-1 rounded-md border bg-muted px-2 py-0.5 text-xs text-muted-foreground"
+                title={attachment.uri}
+              >
+                <Paperclip className="h-3 w-3" />
+                {attachment.name}
+              </span>
+            ))}
+          </div>
+        )}
         
         {message.toolCalls && message.toolCalls.length > 0 && (
           <div className="space-y-2">
             <div className="text-xs text-muted-foreground">Tool Calls:</div>
-            {message.toolCalls.map((tool) => (
+            {message.toolCalls.map((tool) => tool.approval === 'pending' && onToolApproval ? (
+              <ToolApprovalCard
+                key={tool.id}
+                toolCall={tool}
+                onDecision={(decision) => onToolApproval(tool.id, decision)}
+              />
+            ) : (
               <div
                 key={tool.id}
                 className="rounded-md border bg-muted p-3 text-sm"
               >
-                <div className="font-medium text-foreground">
+                <div className="flex items-center gap-2 font-medium text-foreground">
                   {tool.name}
+                  {tool.approval === 'approved' && (
+                    <span className="text-xs font-normal text-green-600">Approved</span>
+                  )}
+                  {tool.approval === 'rejected' && (
+                    <span className="text-xs font-normal text-destructive">Rejected</span>
+                  )}
+                  {tool.validationError && (
+                    <span className="text-xs font-normal text-destructive">Invalid arguments</span>
+                  )}
+                  <ToolCallStatusBadge toolCall={tool} />
                 </div>
                 <pre className="mt-1 text-xs text-muted-foreground">
                   {JSON.stringify(tool.arguments, null, 2)}
                 </pre>
+                {tool.validationError && (
+                  <div className="mt-1 text-xs text-destructive">{tool.validationError}</div>
+                )}
               </div>
             ))}
           </div>
@@ -58,33 +99,30 @@ export function ChatMessage({ message, className }: ChatMessageProps) {
           <div className="space-y-2">
             <div className="text-xs text-muted-foreground">Tool Results:</div>
             {message.toolResults.map((result) => (
-              <div
+              <ToolResultView
                 key={result.id}
-                className={cn(
-                  'rounded-md border p-3 text-sm',
-                  result.error 
-                    ? 'border-destructive bg-destructive/10' 
-                    : 'bg-muted'
-                )}
-              >
-                {result.error ? (
-                  <div className="text-destructive">{result.error}</div>
-                ) : (
-                  <pre className="text-xs text-muted-foreground whitespace-pre-wrap">
-                    {typeof result.result === 'string' 
-                      ? result.result 
-                      : JSON.stringify(result.result, null, 2)
-                    }
-                  </pre>
-                )}
-              </div>
+                result={result}
+                toolName={message.toolCalls?.find(call => call.id === result.id)?.name}
+              />
             ))}
           </div>
         )}
 
-        <div className="text-xs text-muted-foreground">
-          {message.timestamp.toLocaleTimeString()}
-        </div>
+        {!message.isStreaming && (
+          <div className="text-xs text-muted-foreground">
+            {message.timestamp.toLocaleTimeString()}
+            {message.usage && (
+              <span className="ml-2" title={message.model}>
+                {message.usage.promptTokens.toLocaleString()} in · {message.usage.completionTokens.toLocaleString()} out tokens
+              </span>
+            )}
+            {message.stopped && (
+              <span className="ml-2 rounded border px-1.5 py-0.5 text-[10px] uppercase tracking-wide">
+                Stopped
+              </span>
+            )}
+          </div>
+        )}
       </div>
     </div>
   )
@@ -117,4 +155,30 @@ function BotIcon() {
       <path d="M112 148h32a8 8 0 0 0 0-16h-32a8 8 0 0 0 0 16Z" />
     </svg>
   )
-}
\ No newline at end of file
+}
+
+function ToolCallStatusBadge({ toolCall }: { toolCall: ToolCall }) {
+  const duration = toolCall.durationMs !== undefined ? ` · ${formatDuration(toolCall.durationMs)}` : ''
+
+  switch (toolCall.status) {
+    case 'pending':
+      return <span className="ml-auto text-xs font-normal text-muted-foreground">Queued</span>
+    case 'running':
+      return (
+        <span className="ml-auto flex items-center gap-1 text-xs font-normal text-muted-foreground">
+          <RefreshCw className="h-3 w-3 animate-spin" />
+          Running
+        </span>
+      )
+    case 'succeeded':
+      return <span className="ml-auto text-xs font-normal text-green-600">Succeeded{duration}</span>
+    case 'failed':
+      return <span className="ml-auto text-xs font-normal text-destructive">Failed{duration}</span>
+    default:
+      return null
+  }
+}
+
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`
+}
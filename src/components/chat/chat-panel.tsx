@@ -2,19 +2,45 @@ import { useState, useRef, useEffect } from 'react'
 import { Button } from '../ui/button'
 import { Textarea } from '../ui/textarea'
 import { cn } from '@/lib/utils'
-import { Send, Square } from 'lucide-react'
+import { MCPPrompt, MessageAttachment } from '@/types'
+import { filterPrompts } from '@/prompts'
+import { PromptArgumentsForm, PromptPalette } from './prompt-palette'
+import { Paperclip, Send, Square, X } from 'lucide-react'
 
 interface ChatPanelProps {
   onSendMessage: (message: string) => void
   isLoading?: boolean
   onStop?: () => void
   disabled?: boolean
+  attachments?: MessageAttachment[]
+  onRemoveAttachment?: (uri: string) => void
+  prompts?: MCPPrompt[]
+  onRunPrompt?: (prompt: MCPPrompt, args: Record<string, string>) => void
 }
 
-export function ChatPanel({ onSendMessage, isLoading, onStop, disabled = false }: ChatPanelProps) {
+export function ChatPanel({
+  onSendMessage,
+  isLoading,
+  onStop,
+  disabled = false,
+  attachments = [],
+  onRemoveAttachment,
+  prompts = [],
+  onRunPrompt
+}: ChatPanelProps) {
   const [input, setInput] = useState('')
+  const [highlightedPrompt, setHighlightedPrompt] = useState(0)
+  const [selectedPrompt, setSelectedPrompt] = useState<MCPPrompt | null>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
+  // The palette is open while a single-word `/command` is being typed
+  const slashQuery = onRunPrompt && prompts.length > 0 && /^\/\S*$/.test(input) ? input.slice(1) : null
+  const matchingPrompts = slashQuery !== null ? filterPrompts(prompts, slashQuery) : []
+
+  useEffect(() => {
+    setHighlightedPrompt(0)
+  }, [slashQuery])
+
   useEffect(() => {
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto'
@@ -30,7 +56,42 @@ export function ChatPanel({ onSendMessage, isLoading, onStop, disabled = false }
     setInput('')
   }
 
+  const selectPrompt = (prompt: MCPPrompt) => {
+    setInput('')
+    if (prompt.arguments && prompt.arguments.length > 0) {
+      setSelectedPrompt(prompt)
+    } else {
+      onRunPrompt?.(prompt, {})
+    }
+  }
+
+  const runSelectedPrompt = (args: Record<string, string>) => {
+    if (selectedPrompt) {
+      onRunPrompt?.(selectedPrompt, args)
+    }
+    setSelectedPrompt(null)
+    textareaRef.current?.focus()
+  }
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (slashQuery !== null && matchingPrompts.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const step = e.key === 'ArrowDown' ? 1 : -1
+        setHighlightedPrompt((highlightedPrompt + step + matchingPrompts.length) % matchingPrompts.length)
+        return
+      }
+      if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+        e.preventDefault()
+        selectPrompt(matchingPrompts[highlightedPrompt] || matchingPrompts[0])
+        return
+      }
+    }
+    if (slashQuery !== null && e.key === 'Escape') {
+      setInput('')
+      return
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
       handleSubmit(e as any)
@@ -39,11 +100,53 @@ export function ChatPanel({ onSendMessage, isLoading, onStop, disabled = false }
 
   return (
     <div className="border-t bg-background px-4 py-3">
+      {selectedPrompt ? (
+        <PromptArgumentsForm
+          key={selectedPrompt.name}
+          prompt={selectedPrompt}
+          onSubmit={runSelectedPrompt}
+          onCancel={() => setSelectedPrompt(null)}
+          disabled={isLoading || disabled}
+        />
+      ) : slashQuery !== null && (
+        <PromptPalette
+          prompts={matchingPrompts}
+          highlightedIndex={highlightedPrompt}
+          onSelect={selectPrompt}
+          onHighlight={setHighlightedPrompt}
+        />
+      )}
+      {attachments.length > 0 && (
+        <div className="mb-2 flex flex-wrap gap-1">
+          {attachments.map((attachment) => (
+            <span
+              key={attachment.uri}
+              className="inline-flex items-center gap-1 rounded-md border bg-muted px-2 py-0.5 text-xs"
+              title={attachment.uri}
+            >
+              <Paperclip className="h-3 w-3" />
+              {attachment.name}
+              {onRemoveAttachment && (
+                <button
+                  type="button"
+                  onClick={() => onRemoveAttachment(attachment.uri)}
+                  className="text-muted-foreground hover:text-foreground"
+                  title="Remove attachment"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
       <form onSubmit={handleSubmit} className="flex gap-2">
         <div className="relative flex-1">
           <Textarea
             ref={textareaRef}
-            placeholder="Type your message... (Shift+Enter for new line)"
+            placeholder={onRunPrompt && prompts.length > 0
+              ? 'Type your message, or / for prompts... (Shift+Enter for new line)'
+              : 'Type your message... (Shift+Enter for new line)'}
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
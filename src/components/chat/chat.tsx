@@ -1,7 +1,7 @@
 import { ChatList } from './chat-list'
 import { ChatPanel } from './chat-panel'
 import { cn } from '@/lib/utils'
-import { ChatMessage } from '@/types'
+import { ChatMessage, MCPPrompt, MessageAttachment, ToolApprovalDecision } from '@/types'
 
 interface ChatProps {
   className?: string
@@ -10,6 +10,11 @@ interface ChatProps {
   isLoading?: boolean
   onStop?: () => void
   disabled?: boolean
+  onToolApproval?: (toolCallId: string, decision: ToolApprovalDecision) => void
+  attachments?: MessageAttachment[]
+  onRemoveAttachment?: (uri: string) => void
+  prompts?: MCPPrompt[]
+  onRunPrompt?: (prompt: MCPPrompt, args: Record<string, string>) => void
 }
 
 export function Chat({ 
@@ -18,18 +23,31 @@ export function Chat({
   onSendMessage, 
   isLoading = false, 
   onStop,
-  disabled = false
+  disabled = false,
+  onToolApproval,
+  attachments,
+  onRemoveAttachment,
+  prompts,
+  onRunPrompt
 }: ChatProps) {
   return (
     <div className={cn('flex h-full flex-col', className)}>
       <div className="flex-1 overflow-hidden">
-        <ChatList messages={messages} isLoading={isLoading} />
+        <ChatList
+          messages={messages}
+          isLoading={isLoading}
+          onToolApproval={onToolApproval}
+        />
       </div>
       <ChatPanel
         onSendMessage={onSendMessage}
         isLoading={isLoading}
         onStop={onStop}
         disabled={disabled}
+        attachments={attachments}
+        onRemoveAttachment={onRemoveAttachment}
+        prompts={prompts}
+        onRunPrompt={onRunPrompt}
       />
     </div>
   )
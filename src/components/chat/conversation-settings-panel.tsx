@@ -0,0 +1,74 @@
+import { Textarea } from '../ui/textarea'
+import { cn } from '@/lib/utils'
+import { ConversationSettings } from '@/types'
+import { SYSTEM_PROMPT_PLACEHOLDERS } from '@/system-prompt'
+
+interface ConversationSettingsPanelProps {
+  settings: ConversationSettings
+  defaults: { temperature: number; maxTokens: number }
+  onChange: (settings: ConversationSettings) => void
+  className?: string
+}
+
+/**
+ * Temperature, max tokens and system prompt overrides for the active conversation
+ */
+export function ConversationSettingsPanel({
+  settings,
+  defaults,
+  onChange,
+  className
+}: ConversationSettingsPanelProps) {
+  const temperature = settings.temperature ?? defaults.temperature
+
+  return (
+    <div className={cn('space-y-3 border-b bg-muted/30 p-4 text-sm', className)}>
+      <div className="grid grid-cols-2 gap-4">
+        <label className="space-y-1">
+          <div className="flex justify-between text-xs font-medium">
+            <span>Temperature</span>
+            <span className="text-muted-foreground">{temperature.toFixed(1)}</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={2}
+            step={0.1}
+            value={temperature}
+            onChange={(e) => onChange({ ...settings, temperature: Number(e.target.value) })}
+            className="w-full"
+          />
+        </label>
+
+        <label className="space-y-1">
+          <div className="text-xs font-medium">Max tokens</div>
+          <input
+            type="number"
+            min={1}
+            max={128000}
+            value={settings.maxTokens ?? ''}
+            placeholder={String(defaults.maxTokens)}
+            onChange={(e) => onChange({
+              ...settings,
+              maxTokens: e.target.value ? Number(e.target.value) : undefined,
+            })}
+            className="h-8 w-full rounded-md border border-input bg-background px-2 text-xs"
+          />
+        </label>
+      </div>
+
+      <label className="block space-y-1">
+        <div className="text-xs font-medium">System prompt override</div>
+        <Textarea
+          value={settings.systemPrompt ?? ''}
+          placeholder="Leave empty to use the site's WordPress system prompt"
+          onChange={(e) => onChange({ ...settings, systemPrompt: e.target.value || undefined })}
+          className="min-h-[80px] text-xs"
+        />
+        <div className="text-xs text-muted-foreground">
+          Placeholders: {SYSTEM_PROMPT_PLACEHOLDERS.map(name => `{${name}}`).join(', ')}
+        </div>
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,218 @@
+import { useEffect, useState } from 'react'
+import { Button } from '../ui/button'
+import { cn } from '@/lib/utils'
+import { DebugLog } from '@/debug-log'
+import { DebugEntry } from '@/types'
+import { formatDuration } from './chat-message'
+import { ChevronDown, ChevronRight, Download, Search, Trash2 } from 'lucide-react'
+
+interface DebugPanelProps {
+  debugLog: DebugLog
+  className?: string
+}
+
+type KindFilter = 'all' | DebugEntry['kind']
+
+const KIND_STYLES: Record<DebugEntry['kind'], string> = {
+  llm: 'bg-purple-100 text-purple-700',
+  mcp: 'bg-blue-100 text-blue-700',
+  tool: 'bg-amber-100 text-amber-700',
+}
+
+// Entries are replaced rather than changed, so their search text is built once
+const searchTexts = new WeakMap<DebugEntry, string>()
+
+/**
+ * Developer timeline of LLM requests, agent tool calls and MCP JSON-RPC
+ * messages, with filters and a JSON export. Only the panel follows the log,
+ * so new entries don't re-render the rest of the app.
+ */
+export function DebugPanel({ debugLog, className }: DebugPanelProps) {
+  const [entries, setEntries] = useState(() => debugLog.getEntries())
+  const [kind, setKind] = useState<KindFilter>('all')
+  const [errorsOnly, setErrorsOnly] = useState(false)
+  const [search, setSearch] = useState('')
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    setEntries(debugLog.getEntries())
+    return debugLog.subscribe(setEntries)
+  }, [debugLog])
+
+  const term = search.trim().toLowerCase()
+  const filtered = entries.filter(entry =>
+    (kind === 'all' || entry.kind === kind) &&
+    (!errorsOnly || entry.error) &&
+    (!term || getSearchText(entry).includes(term))
+  )
+
+  const exportEntries = () => {
+    const blob = new Blob([JSON.stringify(filtered, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `wp-mcp-debug-${new Date().toISOString().replace(/[:.]/g, '-')}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className={cn('flex h-full w-96 flex-col border-l bg-muted/30', className)}>
+      <div className="space-y-2 border-b p-3">
+        <div className="flex items-center gap-1">
+          <div className="text-sm font-medium">Debug inspector</div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto h-6 px-2 text-xs"
+            onClick={exportEntries}
+            disabled={filtered.length === 0}
+            title="Export the shown entries as JSON"
+          >
+            <Download className="mr-1 h-3 w-3" />
+            Export
+          </Button>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => debugLog.clear()} title="Clear the log">
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-2 top-2.5 h-3 w-3 text-muted-foreground" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Filter by method, model or content"
+            className="h-8 w-full rounded-md border border-input bg-background pl-7 pr-2 text-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+          />
+        </div>
+
+        <div className="flex items-center gap-1 text-xs">
+          {(['all', 'llm', 'mcp', 'tool'] as const).map(option => (
+            <Button
+              key={option}
+              variant={kind === option ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setKind(option)}
+            >
+              {option === 'all' ? 'All' : option.toUpperCase()}
+            </Button>
+          ))}
+          <label className="ml-auto flex items-center gap-1 text-muted-foreground">
+            <input type="checkbox" checked={errorsOnly} onChange={(e) => setErrorsOnly(e.target.checked)} />
+            Errors only
+          </label>
+        </div>
+      </div>
+
+      <div className="flex-1 space-y-1 overflow-y-auto p-2">
+        {filtered.length === 0 && (
+          <div className="px-2 py-4 text-center text-xs text-muted-foreground">
+            {entries.length === 0 ? 'Nothing recorded yet.' : 'No entries match the filters.'}
+          </div>
+        )}
+
+        {filtered.map(entry => (
+          <DebugEntryRow
+            key={entry.id}
+            entry={entry}
+            expanded={expandedId === entry.id}
+            onToggle={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+          />
+        ))}
+      </div>
+
+      <div className="border-t px-3 py-1.5 text-xs text-muted-foreground">
+        {filtered.length} of {entries.length} entries
+      </div>
+    </div>
+  )
+}
+
+function DebugEntryRow({ entry, expanded, onToggle }: { entry: DebugEntry; expanded: boolean; onToggle: () => void }) {
+  const details = entry.kind === 'llm'
+    ? [entry.finishReason, entry.usage && `${entry.usage.promptTokens} → ${entry.usage.completionTokens} tokens`]
+    : entry.kind === 'mcp' ? [entry.server] : []
+
+  return (
+    <div className={cn('rounded-md border bg-background text-xs', entry.error && 'border-destructive')}>
+      <button type="button" className="flex w-full items-start gap-1.5 px-2 py-1.5 text-left" onClick={onToggle}>
+        {expanded
+          ? <ChevronDown className="mt-0.5 h-3 w-3 shrink-0" />
+          : <ChevronRight className="mt-0.5 h-3 w-3 shrink-0" />}
+        <span
+          className={cn(
+            'shrink-0 rounded px-1 font-mono text-[10px] uppercase',
+            KIND_STYLES[entry.kind]
+          )}
+        >
+          {entry.kind}
+        </span>
+        <div className="min-w-0 flex-1">
+          <div className="truncate font-medium">{describeEntry(entry)}</div>
+          <div className="truncate text-muted-foreground">
+            {new Date(entry.startedAt).toLocaleTimeString()}
+            {details.filter(Boolean).map(detail => ` · ${detail}`)}
+          </div>
+        </div>
+        <span className={cn('shrink-0', entry.error ? 'text-destructive' : 'text-muted-foreground')}>
+          {entry.error
+            ? 'Error'
+            : entry.durationMs !== undefined
+              ? formatDuration(entry.durationMs)
+              : entry.kind !== 'mcp' || isPendingRequest(entry) ? 'Pending' : ''}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="space-y-2 border-t p-2">
+          {entry.error && <div className="text-destructive">{entry.error}</div>}
+          <DebugJson label="Request" value={entry.request} />
+          {entry.response !== undefined && <DebugJson label="Response" value={entry.response} />}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function DebugJson({ label, value }: { label: string; value: unknown }) {
+  return (
+    <div>
+      <div className="mb-1 font-medium text-muted-foreground">{label}</div>
+      <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded border bg-muted/50 p-2 font-mono text-[11px]">
+        {typeof value === 'string' ? value : JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  )
+}
+
+/**
+ * One-line summary: the provider and model for LLM calls, the tool name
+ * for tool calls, the JSON-RPC method and direction for MCP messages
+ */
+function describeEntry(entry: DebugEntry): string {
+  if (entry.kind === 'llm') {
+    return `${entry.provider} ${entry.operation} · ${entry.model}`
+  }
+  if (entry.kind === 'tool') {
+    return entry.toolName
+  }
+  return `${entry.direction === 'outgoing' ? '→' : '←'} ${entry.method}`
+}
+
+function getSearchText(entry: DebugEntry): string {
+  let text = searchTexts.get(entry)
+  if (text === undefined) {
+    text = `${describeEntry(entry)}\n${JSON.stringify(entry)}`.toLowerCase()
+    searchTexts.set(entry, text)
+  }
+  return text
+}
+
+// Outgoing requests wait for a response; notifications and replies do not
+function isPendingRequest(entry: DebugEntry): boolean {
+  const message = entry.request as { id?: unknown; method?: string }
+  return entry.kind === 'mcp' && entry.direction === 'outgoing' && message.id !== undefined && message.method !== undefined
+}
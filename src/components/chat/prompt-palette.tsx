@@ -0,0 +1,116 @@
+import { useState } from 'react'
+import { Button } from '../ui/button'
+import { cn } from '@/lib/utils'
+import { MCPPrompt } from '@/types'
+import { missingPromptArguments } from '@/prompts'
+import { Terminal } from 'lucide-react'
+
+interface PromptPaletteProps {
+  prompts: MCPPrompt[]
+  highlightedIndex: number
+  onSelect: (prompt: MCPPrompt) => void
+  onHighlight: (index: number) => void
+}
+
+/**
+ * Slash-command list of the MCP server's prompts, shown above the input
+ */
+export function PromptPalette({ prompts, highlightedIndex, onSelect, onHighlight }: PromptPaletteProps) {
+  if (prompts.length === 0) {
+    return (
+      <div className="mb-2 rounded-md border bg-background px-3 py-2 text-xs text-muted-foreground">
+        No matching prompts.
+      </div>
+    )
+  }
+
+  return (
+    <div className="mb-2 max-h-60 overflow-y-auto rounded-md border bg-background py-1 shadow-sm">
+      {prompts.map((prompt, index) => (
+        <button
+          key={prompt.name}
+          type="button"
+          className={cn(
+            'flex w-full items-start gap-2 px-3 py-1.5 text-left text-sm',
+            index === highlightedIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+          )}
+          onMouseEnter={() => onHighlight(index)}
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(prompt)}
+        >
+          <Terminal className="mt-0.5 h-3 w-3 shrink-0 text-muted-foreground" />
+          <span className="min-w-0 flex-1">
+            <span className="font-mono text-xs">/{prompt.name}</span>
+            {prompt.title && <span className="ml-2 text-xs font-medium">{prompt.title}</span>}
+            {prompt.description && (
+              <span className="block truncate text-xs text-muted-foreground">{prompt.description}</span>
+            )}
+          </span>
+        </button>
+      ))}
+    </div>
+  )
+}
+
+interface PromptArgumentsFormProps {
+  prompt: MCPPrompt
+  onSubmit: (args: Record<string, string>) => void
+  onCancel: () => void
+  disabled?: boolean
+}
+
+/**
+ * Inputs for a prompt's declared arguments
+ */
+export function PromptArgumentsForm({ prompt, onSubmit, onCancel, disabled = false }: PromptArgumentsFormProps) {
+  const [values, setValues] = useState<Record<string, string>>({})
+  const missing = missingPromptArguments(prompt, values)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (missing.length > 0 || disabled) return
+
+    // Optional arguments left empty are omitted rather than sent as ""
+    const args = Object.fromEntries(Object.entries(values).filter(([, value]) => value.trim()))
+    onSubmit(args)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-2 space-y-2 rounded-md border bg-muted/30 p-3 text-sm">
+      <div>
+        <span className="font-mono text-xs">/{prompt.name}</span>
+        {prompt.description && (
+          <div className="text-xs text-muted-foreground">{prompt.description}</div>
+        )}
+      </div>
+
+      {(prompt.arguments || []).map((argument, index) => (
+        <label key={argument.name} className="block space-y-1">
+          <div className="text-xs font-medium">
+            {argument.name}
+            {argument.required && <span className="text-destructive"> *</span>}
+          </div>
+          <input
+            autoFocus={index === 0}
+            value={values[argument.name] || ''}
+            placeholder={argument.description}
+            onChange={(e) => setValues({ ...values, [argument.name]: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') onCancel()
+            }}
+            className="h-8 w-full rounded-md border border-input bg-background px-2 text-xs"
+          />
+        </label>
+      ))}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" className="h-7" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" className="h-7" disabled={missing.length > 0 || disabled}>
+          Run prompt
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,131 @@
+import { useState } from 'react'
+import { Button } from '../ui/button'
+import { cn } from '@/lib/utils'
+import { MCPResource } from '@/types'
+import { Eye, FileText, Paperclip, Search } from 'lucide-react'
+
+interface ResourceBrowserProps {
+  resources: MCPResource[]
+  attachedUris: string[]
+  onAttach: (resource: MCPResource) => void
+  onRead: (resource: MCPResource) => Promise<string>
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * Lists the MCP server's resources with a preview and an attach action
+ */
+export function ResourceBrowser({
+  resources,
+  attachedUris,
+  onAttach,
+  onRead,
+  disabled = false,
+  className
+}: ResourceBrowserProps) {
+  const [search, setSearch] = useState('')
+  const [previewUri, setPreviewUri] = useState<string | null>(null)
+  const [preview, setPreview] = useState('')
+  const [isPreviewLoading, setIsPreviewLoading] = useState(false)
+
+  const term = search.trim().toLowerCase()
+  const filtered = term
+    ? resources.filter(resource =>
+        [resource.name, resource.uri, resource.description || ''].some(value => value.toLowerCase().includes(term))
+      )
+    : resources
+
+  const togglePreview = async (resource: MCPResource) => {
+    if (previewUri === resource.uri) {
+      setPreviewUri(null)
+      return
+    }
+
+    setPreviewUri(resource.uri)
+    setPreview('')
+    setIsPreviewLoading(true)
+    try {
+      setPreview(await onRead(resource))
+    } catch (error) {
+      setPreview(`Failed to read resource: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      setIsPreviewLoading(false)
+    }
+  }
+
+  return (
+    <div className={cn('flex h-full w-72 flex-col border-l bg-muted/30', className)}>
+      <div className="space-y-2 p-3 border-b">
+        <div className="text-sm font-medium">Resources</div>
+        <div className="relative">
+          <Search className="absolute left-2 top-2.5 h-3 w-3 text-muted-foreground" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search resources"
+            className="h-8 w-full rounded-md border border-input bg-background pl-7 pr-2 text-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {filtered.length === 0 && (
+          <div className="px-2 py-4 text-center text-xs text-muted-foreground">
+            {resources.length === 0 ? 'This server has no resources.' : 'No resources match your search.'}
+          </div>
+        )}
+
+        {filtered.map((resource) => {
+          const isAttached = attachedUris.includes(resource.uri)
+
+          return (
+            <div key={resource.uri} className="rounded-md px-2 py-1.5 text-sm hover:bg-accent/50">
+              <div className="flex items-start gap-2">
+                <FileText className="mt-0.5 h-3 w-3 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-medium">{resource.name || resource.uri}</div>
+                  <div className="truncate text-xs text-muted-foreground" title={resource.uri}>
+                    {resource.uri}
+                  </div>
+                  {resource.description && (
+                    <div className="mt-1 text-xs text-muted-foreground">{resource.description}</div>
+                  )}
+                </div>
+              </div>
+
+              <div className="mt-1 flex gap-1 pl-5">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => togglePreview(resource)}
+                >
+                  <Eye className="mr-1 h-3 w-3" />
+                  {previewUri === resource.uri ? 'Hide' : 'Preview'}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => onAttach(resource)}
+                  disabled={disabled || isAttached}
+                >
+                  <Paperclip className="mr-1 h-3 w-3" />
+                  {isAttached ? 'Attached' : 'Attach'}
+                </Button>
+              </div>
+
+              {previewUri === resource.uri && (
+                <pre className="mt-1 max-h-48 overflow-auto whitespace-pre-wrap rounded border bg-background p-2 text-xs text-muted-foreground">
+                  {isPreviewLoading ? 'Loading...' : preview || '(empty)'}
+                </pre>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
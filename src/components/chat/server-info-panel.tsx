@@ -0,0 +1,106 @@
+import { cn } from '@/lib/utils'
+import { MCPInitializeResult } from '@/types'
+
+interface ServerInfoPanelProps {
+  serverInfo: MCPInitializeResult | null
+  name?: string // Shown when several servers are connected
+  endpoint: string
+  counts: { tools: number; resources: number; prompts: number }
+  error?: string
+  className?: string
+}
+
+/**
+ * "About this server" diagnostics: negotiated protocol, server identity,
+ * instructions and advertised capabilities
+ */
+export function ServerInfoPanel({ serverInfo, name, endpoint, counts, error, className }: ServerInfoPanelProps) {
+  if (!serverInfo) {
+    return (
+      <div className={cn('border-b bg-muted/30 p-4 text-sm text-muted-foreground', className)}>
+        {name ? `Not connected to ${name} (${endpoint}).` : 'Not connected to an MCP server.'}
+        {error && <div className="mt-1 text-xs text-destructive">{error}</div>}
+      </div>
+    )
+  }
+
+  const { capabilities } = serverInfo
+  const capabilityRows: Array<{ name: string; enabled: boolean; details: string[] }> = [
+    {
+      name: 'Tools',
+      enabled: Boolean(capabilities.tools),
+      details: [`${counts.tools} loaded`, ...(capabilities.tools?.listChanged ? ['list changes'] : [])],
+    },
+    {
+      name: 'Resources',
+      enabled: Boolean(capabilities.resources),
+      details: [
+        `${counts.resources} loaded`,
+        ...(capabilities.resources?.subscribe ? ['subscribe'] : []),
+        ...(capabilities.resources?.listChanged ? ['list changes'] : []),
+      ],
+    },
+    {
+      name: 'Prompts',
+      enabled: Boolean(capabilities.prompts),
+      details: [`${counts.prompts} loaded`, ...(capabilities.prompts?.listChanged ? ['list changes'] : [])],
+    },
+    { name: 'Logging', enabled: Boolean(capabilities.logging), details: [] },
+    { name: 'Completions', enabled: Boolean(capabilities.completions), details: [] },
+  ]
+
+  return (
+    <div className={cn('space-y-3 border-b bg-muted/30 p-4 text-sm', className)}>
+      <div className="text-sm font-medium">{name ? `About ${name}` : 'About this server'}</div>
+
+      <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-xs">
+        <dt className="text-muted-foreground">Server</dt>
+        <dd>
+          {serverInfo.serverInfo.title || serverInfo.serverInfo.name}
+          <span className="ml-1 text-muted-foreground">v{serverInfo.serverInfo.version}</span>
+        </dd>
+        {serverInfo.serverInfo.title && (
+          <>
+            <dt className="text-muted-foreground">Name</dt>
+            <dd className="font-mono">{serverInfo.serverInfo.name}</dd>
+          </>
+        )}
+        <dt className="text-muted-foreground">Protocol version</dt>
+        <dd className="font-mono">{serverInfo.protocolVersion}</dd>
+        <dt className="text-muted-foreground">Endpoint</dt>
+        <dd className="truncate font-mono" title={endpoint}>{endpoint}</dd>
+      </dl>
+
+      <div>
+        <div className="mb-1 text-xs font-medium">Capabilities</div>
+        <ul className="space-y-0.5 text-xs">
+          {capabilityRows.map((row) => (
+            <li key={row.name} className="flex gap-2">
+              <span className={row.enabled ? 'text-green-600' : 'text-muted-foreground'}>
+                {row.enabled ? '✓' : '–'}
+              </span>
+              <span className={row.enabled ? '' : 'text-muted-foreground'}>{row.name}</span>
+              {row.enabled && row.details.length > 0 && (
+                <span className="text-muted-foreground">({row.details.join(', ')})</span>
+              )}
+            </li>
+          ))}
+          {capabilities.experimental && Object.keys(capabilities.experimental).length > 0 && (
+            <li className="text-muted-foreground">
+              Experimental: {Object.keys(capabilities.experimental).join(', ')}
+            </li>
+          )}
+        </ul>
+      </div>
+
+      {serverInfo.instructions && (
+        <div>
+          <div className="mb-1 text-xs font-medium">Instructions</div>
+          <pre className="max-h-40 overflow-auto whitespace-pre-wrap rounded border bg-background p-2 text-xs text-muted-foreground">
+            {serverInfo.instructions}
+          </pre>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+import { cn } from '@/lib/utils'
+import { MCPConnectionStatus, MCPServerState } from '@/types'
+
+interface ServerStatusListProps {
+  servers: MCPServerState[]
+  className?: string
+}
+
+const STATUS_STYLES: Record<MCPConnectionStatus, string> = {
+  connected: 'bg-green-500',
+  connecting: 'bg-yellow-500 animate-pulse',
+  reconnecting: 'bg-yellow-500 animate-pulse',
+  disconnected: 'bg-red-500',
+}
+
+/**
+ * One badge per MCP server with its connection status; details are in the tooltip
+ */
+export function ServerStatusList({ servers, className }: ServerStatusListProps) {
+  return (
+    <ul className={cn('flex flex-wrap items-center gap-1', className)}>
+      {servers.map(({ server, status, reconnectAttempt, error, counts }) => (
+        <li
+          key={server.id}
+          className="flex items-center gap-1 rounded-full border bg-background px-2 py-0.5 text-xs"
+          title={[
+            `${server.name} (${server.url})`,
+            status === 'reconnecting' ? `Reconnecting (attempt ${reconnectAttempt})` : status,
+            status === 'connected' ? `${counts.tools} tools, ${counts.resources} resources, ${counts.prompts} prompts` : null,
+            error && status !== 'connected' ? error : null,
+          ].filter(Boolean).join('\n')}
+        >
+          <span className={cn('h-2 w-2 rounded-full', STATUS_STYLES[status])} />
+          <span className={status === 'connected' ? '' : 'text-muted-foreground'}>{server.name}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
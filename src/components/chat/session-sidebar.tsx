@@ -0,0 +1,148 @@
+import { useState } from 'react'
+import { Button } from '../ui/button'
+import { cn } from '@/lib/utils'
+import { ChatSession } from '@/types'
+import { Check, MessageSquare, Pencil, Plus, Search, Trash2, X } from 'lucide-react'
+
+interface SessionSidebarProps {
+  sessions: ChatSession[]
+  activeSessionId: string
+  search: string
+  onSearchChange: (search: string) => void
+  onNewSession: () => void
+  onSelectSession: (sessionId: string) => void
+  onRenameSession: (sessionId: string, title: string) => void
+  onDeleteSession: (sessionId: string) => void
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * Conversation list with create, switch, rename, delete and search
+ */
+export function SessionSidebar({
+  sessions,
+  activeSessionId,
+  search,
+  onSearchChange,
+  onNewSession,
+  onSelectSession,
+  onRenameSession,
+  onDeleteSession,
+  disabled = false,
+  className
+}: SessionSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingTitle, setEditingTitle] = useState('')
+
+  const startRename = (session: ChatSession) => {
+    setEditingId(session.id)
+    setEditingTitle(session.title)
+  }
+
+  const commitRename = () => {
+    if (editingId && editingTitle.trim()) {
+      onRenameSession(editingId, editingTitle.trim())
+    }
+    setEditingId(null)
+  }
+
+  const handleDelete = (session: ChatSession) => {
+    if (window.confirm(`Delete "${session.title || 'Untitled chat'}"? This cannot be undone.`)) {
+      onDeleteSession(session.id)
+    }
+  }
+
+  return (
+    <div className={cn('flex h-full w-64 flex-col border-r bg-muted/30', className)}>
+      <div className="space-y-2 p-3 border-b">
+        <Button
+          size="sm"
+          className="w-full"
+          onClick={onNewSession}
+          disabled={disabled}
+        >
+          <Plus className="mr-1 h-3 w-3" />
+          New chat
+        </Button>
+        <div className="relative">
+          <Search className="absolute left-2 top-2.5 h-3 w-3 text-muted-foreground" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => onSearchChange(e.target.value)}
+            placeholder="Search chats"
+            className="h-8 w-full rounded-md border border-input bg-background pl-7 pr-2 text-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {sessions.length === 0 && (
+          <div className="px-2 py-4 text-center text-xs text-muted-foreground">
+            {search ? 'No chats match your search.' : 'No saved chats yet.'}
+          </div>
+        )}
+
+        {sessions.map((session) => (
+          <div
+            key={session.id}
+            className={cn(
+              'group flex items-center gap-1 rounded-md px-2 py-1.5 text-sm',
+              session.id === activeSessionId ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+            )}
+          >
+            {editingId === session.id ? (
+              <>
+                <input
+                  autoFocus
+                  value={editingTitle}
+                  onChange={(e) => setEditingTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename()
+                    if (e.key === 'Escape') setEditingId(null)
+                  }}
+                  className="h-6 min-w-0 flex-1 rounded border border-input bg-background px-1 text-xs"
+                />
+                <button type="button" onClick={commitRename} title="Save">
+                  <Check className="h-3 w-3" />
+                </button>
+                <button type="button" onClick={() => setEditingId(null)} title="Cancel">
+                  <X className="h-3 w-3" />
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  className="flex min-w-0 flex-1 items-center gap-2 text-left disabled:opacity-50"
+                  onClick={() => onSelectSession(session.id)}
+                  disabled={disabled}
+                >
+                  <MessageSquare className="h-3 w-3 shrink-0 text-muted-foreground" />
+                  <span className="truncate">{session.title || 'Untitled chat'}</span>
+                </button>
+                <button
+                  type="button"
+                  className="hidden group-hover:block text-muted-foreground hover:text-foreground"
+                  onClick={() => startRename(session)}
+                  title="Rename"
+                >
+                  <Pencil className="h-3 w-3" />
+                </button>
+                <button
+                  type="button"
+                  className="hidden group-hover:block text-muted-foreground hover:text-destructive"
+                  onClick={() => handleDelete(session)}
+                  title="Delete"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+import { useState } from 'react'
+import { Button } from '../ui/button'
+import { Textarea } from '../ui/textarea'
+import { ToolApprovalDecision, ToolCall } from '@/types'
+import { ShieldAlert } from 'lucide-react'
+
+interface ToolApprovalCardProps {
+  toolCall: ToolCall
+  onDecision: (decision: ToolApprovalDecision) => void
+}
+
+/**
+ * Confirmation card shown before a tool that needs approval is executed
+ */
+export function ToolApprovalCard({ toolCall, onDecision }: ToolApprovalCardProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [argumentsText, setArgumentsText] = useState(() => JSON.stringify(toolCall.arguments, null, 2))
+  const [parseError, setParseError] = useState<string | null>(null)
+  const [alwaysAllow, setAlwaysAllow] = useState(false)
+
+  const handleApprove = () => {
+    let args = toolCall.arguments
+    if (isEditing) {
+      try {
+        args = JSON.parse(argumentsText)
+      } catch (error) {
+        setParseError(error instanceof Error ? error.message : 'Invalid JSON')
+        return
+      }
+      if (!args || typeof args !== 'object' || Array.isArray(args)) {
+        setParseError('Arguments must be a JSON object')
+        return
+      }
+    }
+    onDecision({ action: 'approve', arguments: args, alwaysAllow })
+  }
+
+  return (
+    <div className="rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 text-sm space-y-2">
+      <div className="flex items-center gap-2 font-medium text-foreground">
+        <ShieldAlert className="h-4 w-4 text-yellow-600" />
+        <span>Approve {toolCall.name}?</span>
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-1">
+          <Textarea
+            value={argumentsText}
+            onChange={(e) => {
+              setArgumentsText(e.target.value)
+              setParseError(null)
+            }}
+            className="min-h-[120px] font-mono text-xs"
+          />
+          {parseError && (
+            <div className="text-xs text-destructive">{parseError}</div>
+          )}
+        </div>
+      ) : (
+        <pre className="text-xs text-muted-foreground whitespace-pre-wrap">
+          {JSON.stringify(toolCall.arguments, null, 2)}
+        </pre>
+      )}
+
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        <input
+          type="checkbox"
+          checked={alwaysAllow}
+          onChange={(e) => setAlwaysAllow(e.target.checked)}
+        />
+        Always allow this tool for this session
+      </label>
+
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleApprove}>
+          Approve
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setIsEditing(!isEditing)}>
+          {isEditing ? 'Cancel edit' : 'Edit arguments'}
+        </Button>
+        <Button
+          size="sm"
+          variant="destructive"
+          onClick={() => onDecision({ action: 'reject' })}
+        >
+          Reject
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,275 @@
+import { useState } from 'react'
+import { cn } from '@/lib/utils'
+import { ToolResult } from '@/types'
+import { parseToolResult, safeHref, PostSummary, ToolResultPart } from '@/tool-results'
+import { ChevronDown, ChevronRight, ExternalLink, FileText, Link, Pencil } from 'lucide-react'
+
+interface ToolResultViewProps {
+  result: ToolResult
+  toolName?: string
+  className?: string
+}
+
+/**
+ * A tool result rendered by content type, with a toggle for the raw JSON
+ */
+export function ToolResultView({ result, toolName, className }: ToolResultViewProps) {
+  const [showRaw, setShowRaw] = useState(false)
+  const parts = result.error ? [] : parseToolResult(result, toolName)
+
+  return (
+    <div
+      className={cn(
+        'rounded-md border p-3 text-sm',
+        result.error ? 'border-destructive bg-destructive/10' : 'bg-muted',
+        className
+      )}
+    >
+      <div className="mb-1 flex items-center gap-2 text-xs">
+        {toolName && <span className="font-medium text-foreground">{toolName}</span>}
+        {!result.error && result.result !== null && (
+          <button
+            type="button"
+            className="ml-auto text-muted-foreground hover:text-foreground"
+            onClick={() => setShowRaw(!showRaw)}
+          >
+            {showRaw ? 'Formatted' : 'Raw'}
+          </button>
+        )}
+      </div>
+
+      {result.error ? (
+        <div className="text-destructive">{result.error}</div>
+      ) : showRaw ? (
+        <pre className="max-h-96 overflow-auto whitespace-pre-wrap text-xs text-muted-foreground">
+          {typeof result.result === 'string' ? result.result : JSON.stringify(result.result, null, 2)}
+        </pre>
+      ) : parts.length === 0 ? (
+        <div className="text-xs text-muted-foreground">No content.</div>
+      ) : (
+        <div className="space-y-2">
+          {parts.map((part, index) => (
+            <ToolResultPartView key={index} part={part} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ToolResultPartView({ part }: { part: ToolResultPart }) {
+  switch (part.kind) {
+    case 'text':
+      return <pre className="whitespace-pre-wrap text-xs text-muted-foreground">{part.text}</pre>
+    case 'json':
+      return (
+        <div className="max-h-96 overflow-auto font-mono text-xs">
+          <JsonNode value={part.value} depth={0} />
+        </div>
+      )
+    case 'posts':
+      return <PostsTable posts={part.posts} totalFound={part.totalFound} message={part.message} />
+    case 'image':
+      return (
+        <img
+          src={part.src}
+          alt={`Tool result image (${part.mimeType})`}
+          className="max-h-80 max-w-full rounded border bg-background"
+        />
+      )
+    case 'resource':
+      return <ResourceCard uri={part.uri} mimeType={part.mimeType} text={part.text} size={part.size} />
+    case 'link': {
+      const href = safeHref(part.uri)
+      return (
+        <div className="flex items-center gap-2 rounded border bg-background px-2 py-1.5 text-xs">
+          <Link className="h-3 w-3 shrink-0 text-muted-foreground" />
+          {href ? (
+            <a href={href} target="_blank" rel="noopener noreferrer" className="truncate text-primary hover:underline">
+              {part.name || part.uri}
+            </a>
+          ) : (
+            <span className="truncate font-mono">{part.name || part.uri}</span>
+          )}
+          {part.description && <span className="truncate text-muted-foreground">{part.description}</span>}
+        </div>
+      )
+    }
+    case 'unsupported':
+      return (
+        <div className="text-xs text-muted-foreground">
+          [{part.type} content{part.mimeType ? ` (${part.mimeType})` : ''} is not shown]
+        </div>
+      )
+  }
+}
+
+interface ResourceCardProps {
+  uri: string
+  mimeType?: string
+  text?: string
+  size?: number
+}
+
+function ResourceCard({ uri, mimeType, text, size }: ResourceCardProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  return (
+    <div className="rounded border bg-background text-xs">
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 px-2 py-1.5 text-left"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        {isOpen ? <ChevronDown className="h-3 w-3 shrink-0" /> : <ChevronRight className="h-3 w-3 shrink-0" />}
+        <FileText className="h-3 w-3 shrink-0 text-muted-foreground" />
+        <span className="truncate font-mono">{uri}</span>
+        {mimeType && <span className="ml-auto shrink-0 text-muted-foreground">{mimeType}</span>}
+      </button>
+      {isOpen && (
+        <div className="border-t p-2">
+          {text !== undefined ? (
+            <pre className="max-h-60 overflow-auto whitespace-pre-wrap text-muted-foreground">{text}</pre>
+          ) : (
+            <div className="text-muted-foreground">
+              Binary content{size !== undefined ? ` (${size.toLocaleString()} bytes)` : ''} is not shown.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface PostsTableProps {
+  posts: PostSummary[]
+  totalFound?: number
+  message?: string
+}
+
+function PostsTable({ posts, totalFound, message }: PostsTableProps) {
+  if (posts.length === 0) {
+    return <div className="text-xs text-muted-foreground">{message || 'No posts found.'}</div>
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="overflow-x-auto rounded border bg-background">
+        <table className="w-full text-left text-xs">
+          <thead className="border-b text-muted-foreground">
+            <tr>
+              <th className="px-2 py-1 font-medium">Title</th>
+              <th className="px-2 py-1 font-medium">Status</th>
+              <th className="px-2 py-1 font-medium">Author</th>
+              <th className="px-2 py-1 font-medium">Date</th>
+              <th className="px-2 py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {posts.map((post) => {
+              const viewUrl = safeHref(post.permalink)
+              const editUrl = safeHref(post.edit_url)
+
+              return (
+                <tr key={post.id} className="border-b last:border-0">
+                  <td className="px-2 py-1">
+                    {post.title || <span className="text-muted-foreground">(no title)</span>}
+                    <span className="ml-1 text-muted-foreground">#{post.id}</span>
+                  </td>
+                  <td className="px-2 py-1">{post.status}</td>
+                  <td className="px-2 py-1">{post.author}</td>
+                  <td className="whitespace-nowrap px-2 py-1">{post.date}</td>
+                  <td className="whitespace-nowrap px-2 py-1 text-right">
+                    {editUrl && (
+                      <a href={editUrl} target="_blank" rel="noopener noreferrer" title="Edit" className="inline-flex p-1 text-muted-foreground hover:text-foreground">
+                        <Pencil className="h-3 w-3" />
+                      </a>
+                    )}
+                    {viewUrl && (
+                      <a href={viewUrl} target="_blank" rel="noopener noreferrer" title="View" className="inline-flex p-1 text-muted-foreground hover:text-foreground">
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+      {totalFound !== undefined && totalFound > posts.length && (
+        <div className="text-xs text-muted-foreground">
+          Showing {posts.length} of {totalFound} posts
+        </div>
+      )}
+    </div>
+  )
+}
+
+function JsonNode({ value, depth, name }: { value: unknown; depth: number; name?: string }) {
+  // Nested containers start collapsed so large payloads stay readable
+  const [isOpen, setIsOpen] = useState(depth < 2)
+  const label = name !== undefined ? <span className="text-foreground">{name}: </span> : null
+
+  if (value === null || typeof value !== 'object') {
+    return (
+      <div className="pl-4">
+        {label}
+        <JsonPrimitive value={value} />
+      </div>
+    )
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item] as const)
+    : Object.entries(value)
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}']
+
+  if (entries.length === 0) {
+    return (
+      <div className="pl-4">
+        {label}
+        <span className="text-muted-foreground">{open}{close}</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className={depth > 0 ? 'pl-4' : undefined}>
+      <button
+        type="button"
+        className="-ml-4 inline-flex items-center text-left hover:text-foreground"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <span className="ml-1">
+          {label}
+          <span className="text-muted-foreground">
+            {open}{!isOpen && ` ${entries.length} ${entries.length === 1 ? 'item' : 'items'} ${close}`}
+          </span>
+        </span>
+      </button>
+      {isOpen && (
+        <>
+          {entries.map(([key, item]) => (
+            <JsonNode key={key} name={Array.isArray(value) ? undefined : key} value={item} depth={depth + 1} />
+          ))}
+          <div className="text-muted-foreground">{close}</div>
+        </>
+      )}
+    </div>
+  )
+}
+
+function JsonPrimitive({ value }: { value: unknown }) {
+  if (typeof value === 'string') {
+    return <span className="break-all text-green-700">"{value}"</span>
+  }
+  if (typeof value === 'number') {
+    return <span className="text-blue-600">{value}</span>
+  }
+  if (typeof value === 'boolean' || value === null) {
+    return <span className="text-purple-600">{String(value)}</span>
+  }
+  return <span className="text-muted-foreground">{String(value)}</span>
+}
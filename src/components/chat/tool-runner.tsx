@@ -0,0 +1,437 @@
+import { ReactNode, useState } from 'react'
+import { Button } from '../ui/button'
+import { cn } from '@/lib/utils'
+import { MCPTool, ToolResult } from '@/types'
+import { validateToolArguments } from '@/tool-validation'
+import { ToolResultView } from './tool-result-view'
+import { formatDuration } from './chat-message'
+import { Loader2, Minus, Play, Plus, RotateCcw, Search, Wrench } from 'lucide-react'
+
+interface ToolRunnerProps {
+  tools: MCPTool[]
+  onRun: (tool: MCPTool, args: Record<string, any>) => Promise<ToolResult>
+  disabled?: boolean
+  className?: string
+}
+
+interface RunOutcome {
+  toolName: string
+  result: ToolResult
+  durationMs: number
+}
+
+const INPUT_CLASS = 'h-8 w-full rounded-md border border-input bg-background px-2 text-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring'
+
+/**
+ * Runs MCP tools directly, without the model, from a form generated from
+ * each tool's inputSchema
+ */
+export function ToolRunner({ tools, onRun, disabled = false, className }: ToolRunnerProps) {
+  const [search, setSearch] = useState('')
+  const [selectedName, setSelectedName] = useState<string | null>(null)
+  const [args, setArgs] = useState<Record<string, any>>({})
+  const [validationError, setValidationError] = useState<string | undefined>()
+  const [isRunning, setIsRunning] = useState(false)
+  const [outcome, setOutcome] = useState<RunOutcome | null>(null)
+  // Remounts the form on reset, so JSON fields drop their text
+  const [formKey, setFormKey] = useState(0)
+
+  const term = search.trim().toLowerCase()
+  const filtered = term
+    ? tools.filter(tool =>
+        [tool.name, tool.title || '', tool.description].some(value => value.toLowerCase().includes(term))
+      )
+    : tools
+  const selected = tools.find(tool => tool.name === selectedName)
+
+  const selectTool = (tool: MCPTool) => {
+    setSelectedName(tool.name)
+    setArgs(initialValue(tool.inputSchema) ?? {})
+    setValidationError(undefined)
+    setOutcome(null)
+    setFormKey(key => key + 1)
+  }
+
+  const run = async () => {
+    if (!selected) return
+
+    const error = validateToolArguments(selected, args)
+    setValidationError(error)
+    if (error) return
+
+    setIsRunning(true)
+    const startedAt = Date.now()
+    try {
+      const result = await onRun(selected, args)
+      setOutcome({ toolName: selected.name, result, durationMs: Date.now() - startedAt })
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return (
+    <div className={cn('flex h-full', className)}>
+      <div className="flex w-64 flex-col border-r bg-muted/30">
+        <div className="border-b p-3">
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-3 w-3 text-muted-foreground" />
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search tools"
+              className={cn(INPUT_CLASS, 'pl-7')}
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 space-y-1 overflow-y-auto p-2">
+          {filtered.length === 0 && (
+            <div className="px-2 py-4 text-center text-xs text-muted-foreground">
+              {tools.length === 0 ? 'No tools available.' : 'No tools match your search.'}
+            </div>
+          )}
+
+          {filtered.map(tool => (
+            <button
+              key={tool.name}
+              type="button"
+              onClick={() => selectTool(tool)}
+              className={cn(
+                'w-full rounded-md px-2 py-1.5 text-left text-sm hover:bg-accent/50',
+                tool.name === selectedName && 'bg-accent'
+              )}
+            >
+              <div className="truncate font-medium">{tool.title || tool.name}</div>
+              <div className="line-clamp-2 text-xs text-muted-foreground">{tool.description}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        {!selected ? (
+          <div className="flex h-full flex-col items-center justify-center gap-2 text-sm text-muted-foreground">
+            <Wrench className="h-6 w-6" />
+            Select a tool to run it with your own arguments.
+          </div>
+        ) : (
+          <div className="mx-auto max-w-2xl space-y-4">
+            <div>
+              <div className="flex flex-wrap items-center gap-2">
+                <h2 className="font-mono text-sm font-medium">{selected.name}</h2>
+                {selected.annotations?.readOnlyHint && <Badge>read-only</Badge>}
+                {selected.annotations?.destructiveHint && <Badge className="border-destructive text-destructive">destructive</Badge>}
+              </div>
+              {selected.description && (
+                <p className="mt-1 whitespace-pre-wrap text-sm text-muted-foreground">{selected.description}</p>
+              )}
+            </div>
+
+            <form
+              className="space-y-3"
+              onSubmit={(e) => {
+                e.preventDefault()
+                run()
+              }}
+            >
+              {Object.keys(selected.inputSchema.properties || {}).length === 0 ? (
+                <div className="text-xs text-muted-foreground">This tool takes no arguments.</div>
+              ) : (
+                <ObjectFields key={formKey} schema={selected.inputSchema} value={args} onChange={setArgs} />
+              )}
+
+              {validationError && <div className="text-xs text-destructive">{validationError}</div>}
+
+              <div className="flex gap-2">
+                <Button type="submit" size="sm" disabled={disabled || isRunning}>
+                  {isRunning
+                    ? <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                    : <Play className="mr-1 h-3 w-3" />}
+                  Run
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={() => selectTool(selected)} disabled={isRunning}>
+                  <RotateCcw className="mr-1 h-3 w-3" />
+                  Reset
+                </Button>
+              </div>
+
+              <details className="text-xs">
+                <summary className="cursor-pointer text-muted-foreground">Arguments</summary>
+                <pre className="mt-1 overflow-auto rounded border bg-muted/50 p-2 font-mono">{JSON.stringify(args, null, 2)}</pre>
+              </details>
+            </form>
+
+            {outcome && outcome.toolName === selected.name && (
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground">
+                  {outcome.result.error ? 'Failed' : 'Completed'} in {formatDuration(outcome.durationMs)}
+                </div>
+                <ToolResultView result={outcome.result} toolName={outcome.toolName} />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface FieldProps {
+  schema: Record<string, any>
+  value: any
+  onChange: (value: any) => void
+}
+
+/**
+ * One input per property; unset optional properties are left out of the arguments
+ */
+function ObjectFields({ schema, value, onChange }: FieldProps) {
+  const properties: Record<string, Record<string, any>> = schema.properties || {}
+  const required: string[] = schema.required || []
+  const current: Record<string, any> = value ?? {}
+
+  const setProperty = (name: string, propertyValue: any) => {
+    const next = { ...current }
+    if (propertyValue === undefined) {
+      delete next[name]
+    } else {
+      next[name] = propertyValue
+    }
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-3">
+      {Object.entries(properties).map(([name, propertySchema]) => (
+        <div key={name} className="space-y-1">
+          <label className="flex items-baseline gap-1 text-xs font-medium">
+            {propertySchema.title || name}
+            {required.includes(name) && <span className="text-destructive">*</span>}
+            <span className="font-normal text-muted-foreground">{describeType(propertySchema)}</span>
+          </label>
+          <SchemaField
+            schema={propertySchema}
+            value={current[name]}
+            onChange={(propertyValue) => setProperty(name, propertyValue)}
+            required={required.includes(name)}
+          />
+          {propertySchema.description && (
+            <div className="text-xs text-muted-foreground">{propertySchema.description}</div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function SchemaField({ schema, value, onChange, required }: FieldProps & { required: boolean }) {
+  if (Array.isArray(schema.enum)) {
+    const index = schema.enum.findIndex((option: unknown) => option === value)
+    return (
+      <select
+        value={index === -1 ? '' : String(index)}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : schema.enum[Number(e.target.value)])}
+        className={INPUT_CLASS}
+      >
+        <option value="">{required ? 'Select...' : '(not set)'}</option>
+        {schema.enum.map((option: unknown, i: number) => (
+          <option key={i} value={i}>{String(option)}</option>
+        ))}
+      </select>
+    )
+  }
+
+  switch (schemaType(schema)) {
+    case 'string':
+      return (
+        <input
+          type="text"
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value)}
+          placeholder={schema.format}
+          className={INPUT_CLASS}
+        />
+      )
+
+    case 'number':
+    case 'integer':
+      return (
+        <input
+          type="number"
+          value={value ?? ''}
+          min={schema.minimum}
+          max={schema.maximum}
+          step={schemaType(schema) === 'integer' ? 1 : 'any'}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+          className={INPUT_CLASS}
+        />
+      )
+
+    case 'boolean':
+      // Optional booleans can also be left unset
+      return required ? (
+        <input type="checkbox" checked={value === true} onChange={(e) => onChange(e.target.checked)} />
+      ) : (
+        <select
+          value={value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value === 'true')}
+          className={INPUT_CLASS}
+        >
+          <option value="">(not set)</option>
+          <option value="true">true</option>
+          <option value="false">false</option>
+        </select>
+      )
+
+    case 'array':
+      return <ArrayField schema={schema} value={value} onChange={onChange} />
+
+    case 'object':
+      if (schema.properties) {
+        return (
+          <div className="border-l-2 pl-3">
+            <ObjectFields schema={schema} value={value} onChange={onChange} />
+          </div>
+        )
+      }
+      return <JsonField value={value} onChange={onChange} />
+
+    default:
+      return <JsonField value={value} onChange={onChange} />
+  }
+}
+
+function ArrayField({ schema, value, onChange }: FieldProps) {
+  const items: any[] = Array.isArray(value) ? value : []
+  const itemSchema: Record<string, any> = schema.items && typeof schema.items === 'object' ? schema.items : {}
+
+  const setItems = (next: any[]) => onChange(next.length > 0 ? next : undefined)
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div key={index} className="flex items-start gap-1">
+          <div className="flex-1">
+            <SchemaField
+              schema={itemSchema}
+              value={item}
+              onChange={(itemValue) => setItems(items.map((existing, i) => (i === index ? itemValue : existing)))}
+              required
+            />
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => setItems(items.filter((_, i) => i !== index))}
+            title="Remove item"
+          >
+            <Minus className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="h-6 px-2 text-xs"
+        onClick={() => onChange([...items, initialValue(itemSchema, true)])}
+      >
+        <Plus className="mr-1 h-3 w-3" />
+        Add item
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Free-form values (objects without properties, unions, untyped schemas) are entered as JSON
+ */
+function JsonField({ value, onChange }: Omit<FieldProps, 'schema'>) {
+  const [text, setText] = useState(() => (value === undefined ? '' : JSON.stringify(value, null, 2)))
+  const [error, setError] = useState<string | null>(null)
+
+  const update = (next: string) => {
+    setText(next)
+    if (next.trim() === '') {
+      setError(null)
+      onChange(undefined)
+      return
+    }
+    try {
+      onChange(JSON.parse(next))
+      setError(null)
+    } catch {
+      setError('Invalid JSON')
+    }
+  }
+
+  return (
+    <div>
+      <textarea
+        value={text}
+        onChange={(e) => update(e.target.value)}
+        rows={3}
+        placeholder="JSON"
+        className="w-full rounded-md border border-input bg-background px-2 py-1 font-mono text-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+      />
+      {error && <div className="text-xs text-destructive">{error}</div>}
+    </div>
+  )
+}
+
+function Badge({ children, className }: { children: ReactNode; className?: string }) {
+  return (
+    <span className={cn('rounded-full border px-2 py-0.5 text-[10px] text-muted-foreground', className)}>
+      {children}
+    </span>
+  )
+}
+
+/**
+ * The schema's type, ignoring "null" in nullable unions
+ */
+function schemaType(schema: Record<string, any>): string | undefined {
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type
+  return type ?? (schema.properties ? 'object' : undefined)
+}
+
+function describeType(schema: Record<string, any>): string {
+  if (Array.isArray(schema.enum)) return 'enum'
+  const type = schemaType(schema)
+  if (type === 'array') {
+    const itemType = schema.items && schemaType(schema.items)
+    return itemType ? `${itemType}[]` : 'array'
+  }
+  return type ?? 'json'
+}
+
+/**
+ * Starting value for a field: its default, with the defaults of nested properties filled in.
+ * A required checkbox starts as false, since it shows unchecked rather than empty.
+ */
+function initialValue(schema: Record<string, any>, isRequired = false): any {
+  if (schema.default !== undefined) {
+    return schema.default
+  }
+  if (isRequired && schemaType(schema) === 'boolean') {
+    return false
+  }
+  if (schemaType(schema) !== 'object' || !schema.properties) {
+    return undefined
+  }
+
+  const required: string[] = schema.required || []
+  const value: Record<string, any> = {}
+  for (const [name, propertySchema] of Object.entries<Record<string, any>>(schema.properties)) {
+    const propertyValue = initialValue(propertySchema, required.includes(name))
+    // Optional nested objects are only sent when they have values
+    const isEmptyObject = typeof propertyValue === 'object' && propertyValue !== null && Object.keys(propertyValue).length === 0
+    if (propertyValue !== undefined && (required.includes(name) || !isEmptyObject)) {
+      value[name] = propertyValue
+    }
+  }
+  return value
+}
@@ -0,0 +1,232 @@
+import { useMemo, useState } from 'react'
+import { cn } from '@/lib/utils'
+import { isTrustedImageUrl, MarkdownBlock, MarkdownInline, parseMarkdown } from '@/markdown'
+import { highlightCode, resolveLanguage, TokenType } from '@/syntax-highlight'
+import { Check, Copy } from 'lucide-react'
+
+interface MarkdownProps {
+  content: string
+  className?: string
+}
+
+/**
+ * GitHub-flavored markdown rendered as React elements. Parsing and
+ * highlighting are done in-house because the usual markdown libraries
+ * pull in dependencies that conflict with the MCP SDK.
+ */
+export function Markdown({ content, className }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content])
+
+  return (
+    <div className={cn('space-y-2 break-words', className)}>
+      <Blocks blocks={blocks} />
+    </div>
+  )
+}
+
+const HEADING_CLASSES = [
+  'text-xl font-bold mt-4 mb-2',
+  'text-lg font-bold mt-3 mb-2',
+  'text-base font-bold mt-2 mb-1',
+  'text-sm font-bold mt-2 mb-1',
+  'text-sm font-semibold mt-2 mb-1',
+  'text-sm font-semibold text-muted-foreground mt-2 mb-1',
+]
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  comment: 'text-muted-foreground italic',
+  string: 'text-green-700 dark:text-green-400',
+  number: 'text-orange-600 dark:text-orange-400',
+  keyword: 'text-purple-600 dark:text-purple-400',
+  literal: 'text-blue-600 dark:text-blue-400',
+  variable: 'text-red-600 dark:text-red-400',
+  tag: 'text-blue-600 dark:text-blue-400',
+  attribute: 'text-amber-700 dark:text-amber-400',
+}
+
+function Blocks({ blocks, tight = false }: { blocks: MarkdownBlock[]; tight?: boolean }) {
+  return (
+    <>
+      {blocks.map((block, index) => (
+        <Block key={index} block={block} tight={tight} />
+      ))}
+    </>
+  )
+}
+
+function Block({ block, tight }: { block: MarkdownBlock; tight: boolean }) {
+  switch (block.type) {
+    case 'paragraph':
+      // Paragraphs in tight list items are not wrapped, as in GFM
+      return tight ? <Inlines nodes={block.children} /> : <p className="my-1"><Inlines nodes={block.children} /></p>
+    case 'heading': {
+      const Tag = `h${block.level}` as 'h1'
+      return <Tag className={HEADING_CLASSES[block.level - 1]}><Inlines nodes={block.children} /></Tag>
+    }
+    case 'code':
+      return <CodeBlock language={block.language} code={block.text} />
+    case 'blockquote':
+      return (
+        <blockquote className="my-2 border-l-4 border-muted-foreground/30 pl-3 text-muted-foreground">
+          <Blocks blocks={block.children} />
+        </blockquote>
+      )
+    case 'list': {
+      const isTaskList = block.items.some(item => item.checked !== null)
+      const items = block.items.map((item, index) => (
+        <li key={index} className={cn(item.checked !== null && 'flex list-none items-start gap-2')}>
+          {item.checked !== null && (
+            <input type="checkbox" checked={item.checked} disabled readOnly className="mt-1 shrink-0" />
+          )}
+          <div className={cn(item.checked !== null && 'min-w-0 flex-1', !block.tight && 'space-y-2')}>
+            <Blocks blocks={item.children} tight={block.tight} />
+          </div>
+        </li>
+      ))
+      const listClass = cn('my-2 space-y-1 pl-6', isTaskList && 'pl-1')
+
+      return block.ordered ? (
+        <ol start={block.start} className={cn(listClass, 'list-decimal')}>{items}</ol>
+      ) : (
+        <ul className={cn(listClass, 'list-disc')}>{items}</ul>
+      )
+    }
+    case 'table':
+      return (
+        <div className="my-2 overflow-x-auto">
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr>
+                {block.header.map((cell, index) => (
+                  <th
+                    key={index}
+                    className="border bg-muted px-2 py-1 font-semibold"
+                    style={{ textAlign: block.align[index] || 'left' }}
+                  >
+                    <Inlines nodes={cell} />
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, index) => (
+                    <td
+                      key={index}
+                      className="border px-2 py-1"
+                      style={{ textAlign: block.align[index] || undefined }}
+                    >
+                      <Inlines nodes={cell} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )
+    case 'rule':
+      return <hr className="my-3 border-muted-foreground/30" />
+  }
+}
+
+function Inlines({ nodes }: { nodes: MarkdownInline[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => (
+        <Inline key={index} node={node} />
+      ))}
+    </>
+  )
+}
+
+function Inline({ node }: { node: MarkdownInline }) {
+  switch (node.type) {
+    case 'text':
+      return <>{node.text}</>
+    case 'code':
+      return <code className="rounded bg-muted px-1.5 py-0.5 font-mono text-sm">{node.text}</code>
+    case 'strong':
+      return <strong><Inlines nodes={node.children} /></strong>
+    case 'emphasis':
+      return <em><Inlines nodes={node.children} /></em>
+    case 'strikethrough':
+      return <del><Inlines nodes={node.children} /></del>
+    case 'link':
+      // Links with an unsafe URL are shown as plain text
+      return node.href ? (
+        <a
+          href={node.href}
+          title={node.title}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-primary underline hover:no-underline"
+        >
+          <Inlines nodes={node.children} />
+        </a>
+      ) : (
+        <Inlines nodes={node.children} />
+      )
+    case 'image':
+      if (!node.src) {
+        return <>{node.alt}</>
+      }
+      // Images from other hosts are offered as links instead of being fetched
+      return isTrustedImageUrl(node.src, window.location.origin) ? (
+        <img src={node.src} alt={node.alt} title={node.title} className="inline max-w-full rounded" />
+      ) : (
+        <a
+          href={node.src}
+          title={node.title}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-primary underline hover:no-underline"
+        >
+          {node.alt || node.src}
+        </a>
+      )
+    case 'break':
+      return <br />
+  }
+}
+
+function CodeBlock({ language, code }: { language: string; code: string }) {
+  const [copied, setCopied] = useState(false)
+  const tokens = useMemo(() => highlightCode(code, language), [code, language])
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy code:', error)
+    }
+  }
+
+  return (
+    <div className="my-2 overflow-hidden rounded-md border bg-muted/50">
+      <div className="flex items-center justify-between border-b px-3 py-1 text-xs text-muted-foreground">
+        <span className="font-mono">{resolveLanguage(language) || language || 'text'}</span>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="inline-flex items-center gap-1 hover:text-foreground"
+          aria-label="Copy code"
+        >
+          {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className="overflow-x-auto p-3 text-xs leading-relaxed">
+        <code className="font-mono">
+          {tokens.map((token, index) =>
+            token.type === 'plain' ? token.text : <span key={index} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+          )}
+        </code>
+      </pre>
+    </div>
+  )
+}
@@ -0,0 +1,227 @@
+import { AbortError, ChatMessage, MCPTool } from './types';
+import { LLMProvider } from './base-llm-client';
+import { withAttachments } from './resource-tools';
+
+/**
+ * Context window sizes by model name prefix. The first match wins, so more
+ * specific prefixes come first.
+ */
+const MODEL_CONTEXT_WINDOWS: Array<[string, number]> = [
+  ['gpt-4.1', 1000000],
+  ['gpt-4o', 128000],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4-32k', 32768],
+  ['gpt-4', 8192],
+  ['gpt-3.5-turbo', 16385],
+  ['o1', 128000],
+  ['o3', 200000],
+  ['o4', 200000],
+  ['claude', 200000],
+  ['gemini-1.5-pro', 2000000],
+  ['gemini', 1000000],
+];
+
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Rough average for English text and JSON with OpenAI tokenizers
+const CHARS_PER_TOKEN = 4;
+// Role markers and separators the API adds around each message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Tool results and attachments rarely need to be quoted in full for a summary
+const SUMMARY_RESULT_CHARS = 500;
+const SUMMARY_MAX_TOKENS = 500;
+
+const SUMMARY_INSTRUCTIONS = `Summarize the conversation below between a user and an AI assistant that manages a WordPress site through tools. Keep facts the assistant may need later: the user's goals and preferences, decisions made, IDs, titles and URLs of content that was created or changed, and any open questions. If an earlier summary is included, merge it into the new one. Reply with the summary only.`;
+
+export interface ContextBuildOptions {
+  llmClient: LLMProvider;
+  model: string;
+  maxTokens: number;
+  tools: MCPTool[];
+  signal?: AbortSignal;
+}
+
+/**
+ * Estimate the token count of a piece of text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the tokens a message costs once converted for the API, including
+ * its tool calls and tool results
+ */
+export function estimateMessageTokens(message: ChatMessage): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTokens(withAttachments(message));
+
+  for (const call of message.toolCalls || []) {
+    tokens += MESSAGE_OVERHEAD_TOKENS + estimateTokens(call.name + JSON.stringify(call.arguments));
+  }
+
+  for (const result of message.toolResults || []) {
+    tokens += MESSAGE_OVERHEAD_TOKENS + estimateTokens(result.error || JSON.stringify(result.result) || '');
+  }
+
+  return tokens;
+}
+
+/**
+ * Context window of a model, falling back to a conservative default
+ */
+export function getContextWindow(model: string): number {
+  const match = MODEL_CONTEXT_WINDOWS.find(([prefix]) => model.startsWith(prefix));
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Builds the message list sent to the model for each turn.
+ *
+ * Messages are grouped into turns (a user message and the assistant replies
+ * that follow it), so a tool call is never separated from its result or from
+ * the request that led to it. When the turns no longer fit the model's
+ * window, the oldest ones are folded into a running summary that is sent as
+ * a system message in their place.
+ *
+ * One instance belongs to one conversation; call reset() when switching.
+ */
+export class ConversationContextManager {
+  private summary = '';
+  private summarizedUntilId: string | null = null;
+
+  reset(): void {
+    this.summary = '';
+    this.summarizedUntilId = null;
+  }
+
+  async buildContext(messages: ChatMessage[], options: ContextBuildOptions): Promise<ChatMessage[]> {
+    const remaining = this.unsummarizedMessages(messages);
+    const turns = groupTurns(remaining);
+    const budget = this.getBudget(options);
+
+    const turnTokens = turns.map(turn => turn.reduce((sum, message) => sum + estimateMessageTokens(message), 0));
+    let total = turnTokens.reduce((sum, tokens) => sum + tokens, 0) + this.summaryTokens();
+
+    // The latest turn is always sent, even if it alone is over budget
+    let keepFrom = 0;
+    while (total > budget && keepFrom < turns.length - 1) {
+      total -= turnTokens[keepFrom];
+      keepFrom++;
+    }
+
+    if (keepFrom > 0) {
+      const dropped = turns.slice(0, keepFrom).flat();
+      await this.summarize(dropped, options);
+    }
+
+    const kept = turns.slice(keepFrom).flat();
+    return this.summary ? [this.createSummaryMessage(), ...kept] : kept;
+  }
+
+  /**
+   * Messages after the last one already covered by the summary. A history
+   * that no longer contains that message belongs to another conversation.
+   */
+  private unsummarizedMessages(messages: ChatMessage[]): ChatMessage[] {
+    if (!this.summarizedUntilId) {
+      return messages;
+    }
+
+    const index = messages.findIndex(message => message.id === this.summarizedUntilId);
+    if (index === -1) {
+      this.reset();
+      return messages;
+    }
+
+    return messages.slice(index + 1);
+  }
+
+  /**
+   * Tokens left for the conversation after the completion, system prompt and
+   * tool definitions are accounted for
+   */
+  private getBudget({ llmClient, model, maxTokens, tools }: ContextBuildOptions): number {
+    const systemPrompt = llmClient.createWordPressSystemMessage().content;
+    const toolDefinitions = tools.length > 0 ? JSON.stringify(llmClient.convertTools(tools)) : '';
+
+    return getContextWindow(model)
+      - maxTokens
+      - estimateTokens(systemPrompt)
+      - estimateTokens(toolDefinitions);
+  }
+
+  private summaryTokens(): number {
+    return this.summary ? estimateMessageTokens(this.createSummaryMessage()) : 0;
+  }
+
+  private async summarize(dropped: ChatMessage[], options: ContextBuildOptions): Promise<void> {
+    const transcript = dropped.map(formatForSummary).join('\n\n');
+    const previous = this.summary ? `Earlier summary:\n${this.summary}\n\n` : '';
+
+    try {
+      const summary = await options.llmClient.completeText([
+        { role: 'system', content: SUMMARY_INSTRUCTIONS },
+        { role: 'user', content: `${previous}Conversation:\n${transcript}` },
+      ], {
+        model: options.model,
+        maxTokens: SUMMARY_MAX_TOKENS,
+        temperature: 0.2,
+      }, options.signal);
+
+      if (summary) {
+        this.summary = summary;
+        this.summarizedUntilId = dropped[dropped.length - 1].id;
+      }
+    } catch (error) {
+      if (error instanceof AbortError) {
+        throw error;
+      }
+      // The dropped turns are still left out; summarizing is retried next turn
+      console.warn('Failed to summarize earlier messages:', error);
+    }
+  }
+
+  private createSummaryMessage(): ChatMessage {
+    return {
+      id: 'context-summary',
+      role: 'system',
+      content: `Summary of the earlier part of this conversation:\n${this.summary}`,
+      timestamp: new Date(),
+    };
+  }
+}
+
+/**
+ * Split messages into turns, each starting at a user message. Messages before
+ * the first user message (e.g. the welcome message) form their own turn.
+ */
+function groupTurns(messages: ChatMessage[]): ChatMessage[][] {
+  const turns: ChatMessage[][] = [];
+
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+
+  return turns;
+}
+
+function formatForSummary(message: ChatMessage): string {
+  const speaker = message.role === 'user' ? 'User' : message.role === 'system' ? 'System' : 'Assistant';
+  const lines = message.content ? [`${speaker}: ${message.content}`] : [];
+
+  for (const attachment of message.attachments || []) {
+    lines.push(`${speaker} attached ${attachment.uri}: ${attachment.text.slice(0, SUMMARY_RESULT_CHARS)}`);
+  }
+
+  for (const call of message.toolCalls || []) {
+    const result = message.toolResults?.find(r => r.id === call.id);
+    const output = result?.error || JSON.stringify(result?.result) || '';
+    lines.push(`${speaker} called ${call.name}(${JSON.stringify(call.arguments)}) -> ${output.slice(0, SUMMARY_RESULT_CHARS)}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,170 @@
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { ChatEvent, DebugEntry, LLMDebugEntry, MCPDebugEntry, TokenUsage, ToolDebugEntry } from './types';
+
+// Oldest entries are dropped beyond this, so a long session doesn't grow without bound
+export const MAX_DEBUG_ENTRIES = 500;
+
+export type NewDebugEntry = Omit<LLMDebugEntry, 'id'> | Omit<MCPDebugEntry, 'id'> | Omit<ToolDebugEntry, 'id'>;
+
+export interface DebugEntryUpdate {
+  durationMs?: number;
+  response?: unknown;
+  error?: string;
+  finishReason?: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * In-memory record of LLM requests and MCP messages for the debug inspector.
+ * Entries are replaced rather than mutated, so they can be React state.
+ */
+export class DebugLog {
+  private entries: DebugEntry[] = [];
+  private listeners = new Set<(entries: DebugEntry[]) => void>();
+  private nextId = 1;
+
+  constructor(private maxEntries = MAX_DEBUG_ENTRIES) {}
+
+  /**
+   * Record a new entry and return its id for later updates
+   */
+  add(entry: NewDebugEntry): string {
+    const id = `debug-${this.nextId++}`;
+    this.entries = [...this.entries, { ...entry, id } as DebugEntry].slice(-this.maxEntries);
+    this.notify();
+    return id;
+  }
+
+  /**
+   * Complete a pending entry with its response, error or timing
+   */
+  update(id: string, changes: DebugEntryUpdate): void {
+    const index = this.entries.findIndex(entry => entry.id === id);
+    if (index === -1) {
+      return;
+    }
+
+    this.entries = [...this.entries];
+    this.entries[index] = { ...this.entries[index], ...changes };
+    this.notify();
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.notify();
+  }
+
+  getEntries(): DebugEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Call `listener` with the entries after every change. Returns an unsubscribe function.
+   */
+  subscribe(listener: (entries: DebugEntry[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.entries));
+  }
+}
+
+/**
+ * Chat event handler for the agent loop that records each tool call from
+ * its start to its result
+ */
+export function recordToolCalls(debugLog: DebugLog): (event: ChatEvent) => void {
+  const pending = new Map<string, { entryId: string; startedAt: number }>();
+
+  return event => {
+    if (event.type === 'tool_call_start') {
+      const startedAt = Date.now();
+      const entryId = debugLog.add({
+        kind: 'tool',
+        toolName: event.data.name,
+        startedAt,
+        request: event.data.arguments,
+      });
+      pending.set(event.data.id, { entryId, startedAt });
+    } else if (event.type === 'tool_call_end') {
+      const call = pending.get(event.data.id);
+      if (call) {
+        pending.delete(event.data.id);
+        debugLog.update(call.entryId, {
+          durationMs: Date.now() - call.startedAt,
+          response: event.data.result,
+          error: event.data.error,
+        });
+      }
+    }
+  };
+}
+
+/**
+ * Record every JSON-RPC message passing through an MCP transport.
+ *
+ * Requests are paired with their responses by id to time them. Must be
+ * called before the SDK client connects, since the client installs its
+ * message handler then.
+ */
+export function recordTransport(transport: Transport, server: string, debugLog: DebugLog): void {
+  const pending = new Map<string, { entryId: string; startedAt: number }>();
+
+  const record = (message: JSONRPCMessage, direction: MCPDebugEntry['direction']): string =>
+    debugLog.add({
+      kind: 'mcp',
+      server,
+      method: 'method' in message ? message.method : 'response',
+      direction,
+      startedAt: Date.now(),
+      request: message,
+    });
+
+  const send = transport.send.bind(transport);
+  transport.send = async (message, options) => {
+    const entryId = record(message, 'outgoing');
+    const startedAt = Date.now();
+    if ('method' in message && 'id' in message) {
+      pending.set(String(message.id), { entryId, startedAt });
+    }
+
+    try {
+      await send(message, options);
+    } catch (error) {
+      debugLog.update(entryId, {
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  };
+
+  // The SDK client assigns onmessage during connect(), so wrap whatever it sets
+  let handler: Transport['onmessage'];
+  Object.defineProperty(transport, 'onmessage', {
+    configurable: true,
+    get: () => handler && ((message: JSONRPCMessage, extra?: Parameters<NonNullable<Transport['onmessage']>>[1]) => {
+      const responseId = 'id' in message && !('method' in message) ? String(message.id) : undefined;
+      const request = responseId === undefined ? undefined : pending.get(responseId);
+      if (request) {
+        pending.delete(responseId!);
+        debugLog.update(request.entryId, {
+          durationMs: Date.now() - request.startedAt,
+          response: message,
+          error: 'error' in message ? message.error.message : undefined,
+        });
+      } else {
+        record(message, 'incoming');
+      }
+      handler?.(message, extra);
+    }),
+    set: (value: Transport['onmessage']) => {
+      handler = value;
+    },
+  });
+}
@@ -0,0 +1,391 @@
+import {
+  AssistantResponse,
+  ChatMessage,
+  LLMError,
+  MCPTool,
+  StreamChunk,
+  TokenUsage,
+  ToolCall
+} from './types';
+import { withAttachments } from './resource-tools';
+import { BaseLLMClient, TextCompletionMessage, TextCompletionOptions } from './base-llm-client';
+import { readServerSentEvents } from './sse';
+
+export const GEMINI_DEFAULT_MODEL = 'gemini-2.5-flash';
+
+// Offered when the model list cannot be fetched
+export const GEMINI_FALLBACK_MODELS = [
+  'gemini-2.5-pro',
+  'gemini-2.5-flash',
+  'gemini-2.0-flash',
+];
+
+// Schema keywords Gemini's OpenAPI subset accepts; the rest are dropped
+const GEMINI_SCHEMA_KEYWORDS = [
+  'type',
+  'format',
+  'title',
+  'description',
+  'nullable',
+  'enum',
+  'properties',
+  'required',
+  'items',
+  'anyOf',
+  'minItems',
+  'maxItems',
+  'minimum',
+  'maximum',
+  'minLength',
+  'maxLength',
+  'pattern',
+];
+
+type GeminiPart =
+  | { text: string }
+  | { functionCall: { id?: string; name: string; args?: Record<string, any> } }
+  | { functionResponse: { name: string; response: Record<string, any> } };
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+interface GeminiFunctionDeclaration {
+  name: string;
+  description: string;
+  parameters?: Record<string, any>;
+}
+
+interface GeminiRequest {
+  model: string;
+  contents: GeminiContent[];
+  systemInstruction?: { parts: Array<{ text: string }> };
+  tools?: Array<{ functionDeclarations: GeminiFunctionDeclaration[] }>;
+  generationConfig: { temperature: number; maxOutputTokens: number };
+  stream?: boolean;
+}
+
+/**
+ * Google Gemini generateContent client, proxied through the WordPress REST API
+ */
+export class GeminiClient extends BaseLLMClient {
+  readonly id = 'gemini' as const;
+  readonly defaultModel = GEMINI_DEFAULT_MODEL;
+
+  convertTools(tools: MCPTool[]): GeminiFunctionDeclaration[] {
+    return [...this.translateTools(tools).values()].map(({ definition }) => {
+      const parameters = toGeminiSchema(definition.function.parameters);
+      const hasParameters = Object.keys(parameters.properties || {}).length > 0;
+
+      return {
+        name: definition.function.name,
+        description: definition.function.description,
+        ...(hasParameters ? { parameters } : {}),
+      };
+    });
+  }
+
+  async sendMessages(
+    conversation: ChatMessage[],
+    tools: MCPTool[] = [],
+    signal?: AbortSignal
+  ): Promise<AssistantResponse> {
+    const request = this.buildRequest(conversation, tools);
+
+    return this.recordRequest('send', request, async () => {
+      try {
+        const response = await this.fetchProxy('gemini/generate', request, signal);
+        const data = await response.json();
+        const parts: GeminiPart[] = data.candidates?.[0]?.content?.parts || [];
+
+        const result: AssistantResponse = {
+          message: parts.map(part => 'text' in part ? part.text : '').join(''),
+          model: data.modelVersion,
+          usage: this.convertUsage(data.usageMetadata),
+          finishReason: data.candidates?.[0]?.finishReason,
+        };
+
+        const toolCalls = this.extractToolCalls(parts, 0);
+        if (toolCalls.length > 0) {
+          result.toolCalls = toolCalls;
+        }
+
+        return result;
+      } catch (error) {
+        throw this.toLLMError(error, signal);
+      }
+    });
+  }
+
+  /**
+   * Stream a reply. Each event is a partial response: text parts are
+   * deltas, while function calls always arrive complete.
+   */
+  async streamMessages(
+    conversation: ChatMessage[],
+    tools: MCPTool[],
+    onChunk: (chunk: StreamChunk) => void,
+    signal?: AbortSignal
+  ): Promise<AssistantResponse> {
+    const request = { ...this.buildRequest(conversation, tools), stream: true };
+
+    return this.recordRequest('stream', request, async () => {
+      try {
+        const response = await this.fetchProxy('gemini/generate', request, signal);
+
+        let message = '';
+        let model: string | undefined;
+        let usage: TokenUsage | undefined;
+        let finishReason: string | undefined;
+        const toolCalls: ToolCall[] = [];
+
+        await readServerSentEvents(response, ({ data }) => {
+          const chunk = JSON.parse(data);
+          if (chunk.error) {
+            throw new LLMError(chunk.error.message || 'Streaming request failed', this.id, chunk.error.code, chunk.error.status);
+          }
+
+          const parts: GeminiPart[] = chunk.candidates?.[0]?.content?.parts || [];
+          for (const part of parts) {
+            if ('text' in part && part.text) {
+              message += part.text;
+              onChunk({ type: 'content', content: part.text });
+            }
+          }
+
+          for (const toolCall of this.extractToolCalls(parts, toolCalls.length)) {
+            onChunk({
+              type: 'tool_call',
+              index: toolCalls.length,
+              id: toolCall.id,
+              name: toolCall.name,
+              arguments: JSON.stringify(toolCall.arguments),
+            });
+            toolCalls.push(toolCall);
+          }
+
+          model = chunk.modelVersion || model;
+          usage = this.convertUsage(chunk.usageMetadata) || usage;
+          finishReason = chunk.candidates?.[0]?.finishReason || finishReason;
+        });
+
+        const result: AssistantResponse = { message, model, usage, finishReason };
+        if (toolCalls.length > 0) {
+          result.toolCalls = toolCalls;
+        }
+
+        return result;
+      } catch (error) {
+        throw this.toLLMError(error, signal);
+      }
+    });
+  }
+
+  async completeText(
+    messages: TextCompletionMessage[],
+    options: TextCompletionOptions,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const system = messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+    const request = {
+      model: options.model || this.model,
+      contents: messages
+        .filter(message => message.role === 'user')
+        .map(message => ({ role: 'user', parts: [{ text: message.content }] })),
+      systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+      generationConfig: { temperature: options.temperature, maxOutputTokens: options.maxTokens },
+    };
+
+    return this.recordRequest('complete', request, async () => {
+      try {
+        const response = await this.fetchProxy('gemini/generate', request, signal);
+        const data = await response.json();
+
+        return (data.candidates?.[0]?.content?.parts || [])
+          .map((part: GeminiPart) => 'text' in part ? part.text : '')
+          .join('')
+          .trim();
+      } catch (error) {
+        throw this.toLLMError(error, signal);
+      }
+    });
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    try {
+      const response = await this.fetchProxy('gemini/models');
+      const data = await response.json();
+      const models = (data.models || [])
+        .filter((model: { supportedGenerationMethods?: string[] }) =>
+          model.supportedGenerationMethods?.includes('generateContent'))
+        .map((model: { name: string }) => model.name.replace(/^models\//, ''));
+      return models.length > 0 ? models : [...GEMINI_FALLBACK_MODELS];
+    } catch (error) {
+      return [...GEMINI_FALLBACK_MODELS];
+    }
+  }
+
+  private buildRequest(conversation: ChatMessage[], tools: MCPTool[]): GeminiRequest {
+    this.offeredTools = this.translateTools(tools);
+    const { system, contents } = this.convertMessages(conversation);
+
+    return {
+      model: this.model,
+      contents,
+      systemInstruction: { parts: [{ text: system }] },
+      tools: tools.length > 0 ? [{ functionDeclarations: this.convertTools(tools) }] : undefined,
+      generationConfig: {
+        temperature: this.temperature,
+        maxOutputTokens: this.maxTokens,
+      },
+    };
+  }
+
+  /**
+   * Convert chat messages to Gemini contents. Assistant turns use the
+   * `model` role, tool results become `functionResponse` parts matched to
+   * their call by function name, and consecutive turns of the same role
+   * are merged.
+   */
+  private convertMessages(conversation: ChatMessage[]): { system: string; contents: GeminiContent[] } {
+    const system = [this.createWordPressSystemMessage().content];
+    const contents: GeminiContent[] = [];
+
+    const append = (role: GeminiContent['role'], parts: GeminiPart[]) => {
+      if (parts.length === 0) return;
+      const last = contents[contents.length - 1];
+      if (last?.role === role) {
+        last.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    };
+
+    for (const message of conversation) {
+      if (message.role === 'system') {
+        system.push(withAttachments(message));
+      } else if (message.role === 'user') {
+        append('user', [{ text: withAttachments(message) || ' ' }]);
+      } else if (message.role === 'assistant') {
+        const parts: GeminiPart[] = [];
+        if (message.content.trim()) {
+          parts.push({ text: message.content });
+        }
+        for (const call of message.toolCalls || []) {
+          parts.push({ functionCall: { name: this.toFunctionName(call.name), args: call.arguments } });
+        }
+        append('model', parts);
+
+        append('user', (message.toolResults || []).map(result => {
+          const call = message.toolCalls?.find(toolCall => toolCall.id === result.id);
+          return {
+            functionResponse: {
+              name: this.toFunctionName(call?.name || ''),
+              response: result.error ? { error: result.error } : { result: result.result },
+            },
+          };
+        }));
+      }
+    }
+
+    return { system: system.join('\n\n'), contents };
+  }
+
+  /**
+   * Gemini may omit call ids, so missing ones are generated
+   */
+  private extractToolCalls(parts: GeminiPart[], offset: number): ToolCall[] {
+    return parts
+      .filter((part): part is Extract<GeminiPart, { functionCall: unknown }> => 'functionCall' in part)
+      .map((part, index) => this.toToolCall(
+        part.functionCall.id || `gemini-call-${Date.now()}-${offset + index}`,
+        part.functionCall.name,
+        part.functionCall.args ?? {}
+      ));
+  }
+
+  private convertUsage(usage?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  }): TokenUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+
+    const promptTokens = usage.promptTokenCount || 0;
+    const completionTokens = usage.candidatesTokenCount || 0;
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: usage.totalTokenCount ?? promptTokens + completionTokens,
+    };
+  }
+}
+
+/**
+ * Reduce a JSON Schema to the OpenAPI subset Gemini accepts: unsupported
+ * keywords are dropped and `["string", "null"]` types become `nullable`
+ */
+function toGeminiSchema(schema: unknown): Record<string, any> {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    return {};
+  }
+
+  const source = schema as Record<string, any>;
+  const result: Record<string, any> = {};
+
+  for (const keyword of GEMINI_SCHEMA_KEYWORDS) {
+    if (source[keyword] !== undefined) {
+      result[keyword] = source[keyword];
+    }
+  }
+
+  if (Array.isArray(source.type)) {
+    const types = source.type.filter((type: string) => type !== 'null');
+    result.type = types[0] || 'string';
+    if (types.length < source.type.length) {
+      result.nullable = true;
+    }
+  }
+
+  // Only string enums are accepted. Other enums are dropped rather than turned
+  // into strings, which the model would echo back as the wrong type; their
+  // values stay in the description as a hint.
+  if (Array.isArray(result.enum)) {
+    const values = result.enum.filter((value: unknown) => value !== null);
+    if (values.every((value: unknown) => typeof value === 'string')) {
+      result.enum = values;
+      result.type = 'string';
+    } else {
+      delete result.enum;
+      if (!result.type && values.every((value: unknown) => typeof value === 'number')) {
+        result.type = values.every(Number.isInteger) ? 'integer' : 'number';
+      }
+      const note = `(one of ${JSON.stringify(values)})`;
+      result.description = result.description ? `${result.description} ${note}` : note;
+    }
+  }
+
+  if (result.format && !['enum', 'date-time'].includes(result.format)) {
+    delete result.format;
+  }
+
+  if (source.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(source.properties).map(([name, property]) => [name, toGeminiSchema(property)])
+    );
+  }
+  if (source.items) {
+    result.items = toGeminiSchema(source.items);
+  }
+  if (Array.isArray(source.anyOf)) {
+    result.anyOf = source.anyOf.map(toGeminiSchema);
+  }
+  if (Array.isArray(source.oneOf) && !result.anyOf) {
+    result.anyOf = source.oneOf.map(toGeminiSchema);
+  }
+
+  return result;
+}
@@ -0,0 +1,43 @@
+import { LLMProviderId, WordPressConfig } from './types';
+import { LLMProvider } from './base-llm-client';
+import { CloudflareOpenAIClient } from './openai-client';
+import { AnthropicClient } from './anthropic-client';
+import { GeminiClient } from './gemini-client';
+
+export const LLM_PROVIDER_LABELS: Record<LLMProviderId, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  gemini: 'Google Gemini',
+  local: 'Local (Ollama)',
+};
+
+/**
+ * Create the client for a provider. All of them go through the WordPress
+ * proxy, which holds the API keys.
+ */
+export function createLLMProvider(id: LLMProviderId, wpConfig: WordPressConfig): LLMProvider {
+  switch (id) {
+    case 'anthropic':
+      return new AnthropicClient(wpConfig);
+    case 'gemini':
+      return new GeminiClient(wpConfig);
+    case 'local':
+      return new CloudflareOpenAIClient(wpConfig, 'local');
+    default:
+      return new CloudflareOpenAIClient(wpConfig);
+  }
+}
+
+/**
+ * The conversation's provider when it is still configured, otherwise the
+ * first configured one
+ */
+export function resolveProvider(
+  requested: LLMProviderId | undefined,
+  configured: LLMProviderId[]
+): LLMProviderId | null {
+  if (requested && configured.includes(requested)) {
+    return requested;
+  }
+  return configured[0] ?? null;
+}
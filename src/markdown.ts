@@ -0,0 +1,754 @@
+/**
+ * GitHub-flavored markdown parser for assistant messages.
+ *
+ * Produces a small syntax tree that the Markdown component renders as React
+ * elements, so no HTML string is ever injected. Raw HTML in the source is
+ * kept as text, and link and image URLs go through sanitizeUrl().
+ * Images are only loaded from the site itself; see isTrustedImageUrl().
+ */
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: 1 | 2 | 3 | 4 | 5 | 6; children: MarkdownInline[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; tight: boolean; items: MarkdownListItem[] }
+  | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+export interface MarkdownListItem {
+  checked: boolean | null; // null when the item is not a task
+  children: MarkdownBlock[];
+}
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'emphasis'; children: MarkdownInline[] }
+  | { type: 'strikethrough'; children: MarkdownInline[] }
+  | { type: 'link'; href: string | undefined; title?: string; children: MarkdownInline[] }
+  | { type: 'image'; src: string | undefined; alt: string; title?: string }
+  | { type: 'break' };
+
+interface LinkDefinition {
+  href: string;
+  title?: string;
+}
+
+type Definitions = Map<string, LinkDefinition>;
+
+const SAFE_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+const SAFE_IMAGE_PROTOCOLS = ['http:', 'https:'];
+
+const FENCE = /^( {0,3})(`{3,}|~{3,})[ \t]*([^`\s]*)[^`]*$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])([ \t]+|$)(.*)$/;
+const TASK = /^\[([ xX])\][ \t]+/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const INDENTED_CODE = /^(?: {4}|\t)/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const LINK_DEFINITION = /^ {0,3}\[([^\]]+)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?[ \t]*$/;
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+
+/**
+ * Parse markdown into blocks
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const definitions: Definitions = new Map();
+  const content = extractDefinitions(lines, definitions);
+  return parseBlocks(content, definitions);
+}
+
+/**
+ * Return the URL when it is relative or uses a protocol that is safe to
+ * follow, otherwise undefined. Protocols are compared after removing the
+ * whitespace and control characters browsers ignore, so `java\tscript:`
+ * is caught too.
+ */
+export function sanitizeUrl(url: string, allowedProtocols: string[] = SAFE_LINK_PROTOCOLS): string | undefined {
+  const trimmed = url.trim();
+  const normalized = trimmed.replace(/[\u0000- \u007f-\u009f]/g, '');
+  const scheme = normalized.match(/^([a-zA-Z][a-zA-Z0-9+.-]*):/);
+
+  if (!scheme) {
+    return trimmed;
+  }
+
+  return allowedProtocols.includes(`${scheme[1].toLowerCase()}:`) ? trimmed : undefined;
+}
+
+/**
+ * Whether an image URL may be loaded automatically: only when it resolves
+ * to the site's own origin, where its media uploads live. Model output can
+ * echo untrusted tool results, so loading any other URL would let a prompt
+ * injection send conversation data to another host with no click needed.
+ */
+export function isTrustedImageUrl(src: string, siteOrigin: string): boolean {
+  try {
+    return new URL(src, siteOrigin).origin === siteOrigin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Plain text of inline nodes, for alt text and copy
+ */
+export function inlineToText(nodes: MarkdownInline[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.text;
+      case 'image':
+        return node.alt;
+      case 'break':
+        return '\n';
+      default:
+        return inlineToText(node.children);
+    }
+  }).join('');
+}
+
+// Reference definitions may appear anywhere outside code, so they are
+// collected before block parsing
+function extractDefinitions(lines: string[], definitions: Definitions): string[] {
+  const kept: string[] = [];
+  let fence: string | null = null;
+  let previousBlank = true;
+
+  for (const line of lines) {
+    const fenceMatch = line.match(FENCE);
+    if (fence) {
+      if (fenceMatch && fenceMatch[2][0] === fence[0] && fenceMatch[2].length >= fence.length && !fenceMatch[3]) {
+        fence = null;
+      }
+    } else if (fenceMatch) {
+      fence = fenceMatch[2];
+    } else if (previousBlank || LINK_DEFINITION.test(kept[kept.length - 1] || '')) {
+      const definition = line.match(LINK_DEFINITION);
+      if (definition) {
+        const label = normalizeLabel(definition[1]);
+        if (!definitions.has(label)) {
+          definitions.set(label, {
+            href: definition[2],
+            title: definition[3] ?? definition[4] ?? definition[5],
+          });
+        }
+        continue;
+      }
+    }
+
+    kept.push(line);
+    previousBlank = line.trim() === '';
+  }
+
+  return kept;
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+/**
+ * Whether a line starts a block that ends a paragraph without a blank line
+ */
+function interruptsParagraph(line: string): boolean {
+  if (FENCE.test(line) || ATX_HEADING.test(line) || RULE.test(line) || BLOCKQUOTE.test(line)) {
+    return true;
+  }
+
+  // Only bullets and lists starting at 1 may interrupt, and never empty items
+  const item = line.match(LIST_ITEM);
+  return Boolean(item && item[4].trim() && (!/^\d/.test(item[2]) || parseInt(item[2], 10) === 1));
+}
+
+function parseBlocks(lines: string[], definitions: Definitions): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const [, indent, marker, info] = fence;
+      const body: string[] = [];
+      i++;
+      while (i < lines.length) {
+        const closing = lines[i].match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+        if (closing && closing[1][0] === marker[0] && closing[1].length >= marker.length) {
+          i++;
+          break;
+        }
+        body.push(stripIndent(lines[i], indent.length));
+        i++;
+      }
+      blocks.push({ type: 'code', language: info.toLowerCase(), text: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(ATX_HEADING);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length as 1 | 2 | 3 | 4 | 5 | 6,
+        children: parseInline(heading[2] || '', definitions),
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        if (BLOCKQUOTE.test(lines[i])) {
+          body.push(lines[i].replace(BLOCKQUOTE, ''));
+        } else if (!interruptsParagraph(lines[i])) {
+          body.push(lines[i]); // Lazy continuation of the quoted paragraph
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(body, definitions) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      i = parseList(lines, i, blocks, definitions);
+      continue;
+    }
+
+    if (INDENTED_CODE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && (INDENTED_CODE.test(lines[i]) || isBlank(lines[i]))) {
+        body.push(lines[i].replace(INDENTED_CODE, ''));
+        i++;
+      }
+      while (body.length > 0 && isBlank(body[body.length - 1])) {
+        body.pop();
+      }
+      blocks.push({ type: 'code', language: '', text: body.join('\n') });
+      continue;
+    }
+
+    if (i + 1 < lines.length && line.includes('|') && TABLE_DELIMITER.test(lines[i + 1])) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map(parseAlign);
+      if (header.length === align.length) {
+        i += 2;
+        const rows: MarkdownInline[][][] = [];
+        while (i < lines.length && !isBlank(lines[i]) && !interruptsParagraph(lines[i])) {
+          const cells = splitTableRow(lines[i]);
+          rows.push(align.map((_, column) => parseInline(cells[column] || '', definitions)));
+          i++;
+        }
+        blocks.push({
+          type: 'table',
+          align,
+          header: header.map(cell => parseInline(cell, definitions)),
+          rows,
+        });
+        continue;
+      }
+    }
+
+    // Paragraph, possibly turned into a heading by a setext underline
+    const body: string[] = [line.trim()];
+    i++;
+    let setextLevel: 1 | 2 | null = null;
+    while (i < lines.length && !isBlank(lines[i])) {
+      const underline = lines[i].match(SETEXT_UNDERLINE);
+      if (underline) {
+        setextLevel = underline[1][0] === '=' ? 1 : 2;
+        i++;
+        break;
+      }
+      if (interruptsParagraph(lines[i]) || (lines[i].includes('|') && TABLE_DELIMITER.test(lines[i + 1] || ''))) {
+        break;
+      }
+      body.push(lines[i].trim());
+      i++;
+    }
+
+    // Keep hard breaks (two trailing spaces) visible to the inline parser
+    const text = body.join('\n');
+    blocks.push(setextLevel
+      ? { type: 'heading', level: setextLevel, children: parseInline(text, definitions) }
+      : { type: 'paragraph', children: parseInline(text, definitions) });
+  }
+
+  return blocks;
+}
+
+function parseList(lines: string[], start: number, blocks: MarkdownBlock[], definitions: Definitions): number {
+  const first = lines[start].match(LIST_ITEM)!;
+  const ordered = /^\d/.test(first[2]);
+  const delimiter = first[2].slice(-1);
+  const items: MarkdownListItem[] = [];
+  let tight = true;
+  let i = start;
+
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM);
+    if (!match || /^\d/.test(match[2]) !== ordered || match[2].slice(-1) !== delimiter) {
+      break;
+    }
+
+    // Continuation lines are indented to the start of the item's text
+    const [, indent, marker, spacing, rest] = match;
+    const padding = spacing.length > 4 || rest === '' ? 1 : spacing.length;
+    const contentIndent = indent.length + marker.length + padding;
+    const body: string[] = [spacing.length > 4 ? ' '.repeat(spacing.length - 1) + rest : rest];
+    i++;
+
+    let sawBlank = false;
+    let endedWithBlank = false;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        body.push('');
+        sawBlank = true;
+        i++;
+        continue;
+      }
+
+      const lineIndent = line.match(/^ */)![0].length;
+      if (lineIndent >= contentIndent) {
+        if (sawBlank) {
+          endedWithBlank = false;
+          if (body.some(entry => entry !== '')) tight = false;
+        }
+        body.push(line.slice(contentIndent));
+        sawBlank = false;
+        i++;
+        continue;
+      }
+
+      // Lazy continuation of the item's last paragraph
+      if (!sawBlank && !LIST_ITEM.test(line) && !interruptsParagraph(line)) {
+        body.push(line.trim());
+        i++;
+        continue;
+      }
+
+      endedWithBlank = sawBlank;
+      break;
+    }
+
+    if (i >= lines.length) {
+      endedWithBlank = false;
+    }
+
+    while (body.length > 0 && body[body.length - 1] === '') {
+      body.pop();
+    }
+
+    let checked: boolean | null = null;
+    const task = body[0]?.match(TASK);
+    if (task) {
+      checked = task[1] !== ' ';
+      body[0] = body[0].slice(task[0].length);
+    }
+
+    items.push({ checked, children: parseBlocks(body, definitions) });
+
+    // A blank line between items makes the whole list loose
+    if (endedWithBlank) {
+      const next = lines[i]?.match(LIST_ITEM);
+      if (next && /^\d/.test(next[2]) === ordered && next[2].slice(-1) === delimiter) {
+        tight = false;
+      }
+    }
+  }
+
+  blocks.push({
+    type: 'list',
+    ordered,
+    start: ordered ? parseInt(first[2], 10) : 1,
+    tight,
+    items,
+  });
+
+  return i;
+}
+
+function stripIndent(line: string, width: number): string {
+  let removed = 0;
+  while (removed < width && line[removed] === ' ') {
+    removed++;
+  }
+  return line.slice(removed);
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+
+  // Split on pipes that are not escaped; `\|` stays a literal pipe
+  const cells: string[] = [];
+  let current = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += row[i];
+    }
+  }
+  cells.push(current.trim());
+
+  return cells;
+}
+
+function parseAlign(cell: string): TableAlign {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+}
+
+/**
+ * Parse inline markdown: code spans, emphasis, strikethrough, links,
+ * images, autolinks and hard breaks
+ */
+function parseInline(text: string, definitions: Definitions): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const pushText = (value: string) => {
+    buffer += value;
+  };
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+  const push = (node: MarkdownInline) => {
+    flush();
+    nodes.push(node);
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\') {
+      if (text[i + 1] === '\n') {
+        push({ type: 'break' });
+        i += 2;
+        continue;
+      }
+      if (ESCAPABLE.test(text[i + 1] || '')) {
+        pushText(text[i + 1]);
+        i += 2;
+        continue;
+      }
+    }
+
+    if (char === '\n') {
+      if (/ {2,}$/.test(buffer)) {
+        buffer = buffer.replace(/ +$/, '');
+        push({ type: 'break' });
+      } else {
+        buffer = buffer.replace(/ +$/, '');
+        pushText('\n');
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const close = findCodeSpanEnd(text, i + run.length, run.length);
+      if (close !== -1) {
+        let code = text.slice(i + run.length, close).replace(/\n/g, ' ');
+        if (/^ .*[^ ].* $/.test(code)) code = code.slice(1, -1);
+        push({ type: 'code', text: code });
+        i = close + run.length;
+      } else {
+        pushText(run);
+        i += run.length;
+      }
+      continue;
+    }
+
+    if (char === '!' && text[i + 1] === '[') {
+      const link = parseLink(text, i + 1, definitions);
+      if (link) {
+        push({
+          type: 'image',
+          src: sanitizeUrl(link.href, SAFE_IMAGE_PROTOCOLS),
+          alt: inlineToText(parseInline(link.label, definitions)),
+          title: link.title,
+        });
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const link = parseLink(text, i, definitions);
+      if (link) {
+        push({
+          type: 'link',
+          href: sanitizeUrl(link.href),
+          title: link.title,
+          children: parseInline(link.label, definitions),
+        });
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (char === '<') {
+      const autolink = text.slice(i).match(/^<((?:[a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*)|(?:[^\s<>@]+@[^\s<>@]+\.[^\s<>@]+))>/);
+      if (autolink) {
+        const target = autolink[1];
+        const href = /^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(target) ? target : `mailto:${target}`;
+        push({ type: 'link', href: sanitizeUrl(href), children: [{ type: 'text', text: target }] });
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    if ((char === 'h' || char === 'w') && /(^|[\s(*_~])$/.test(text.slice(Math.max(0, i - 1), i) || ' ')) {
+      const bare = text.slice(i).match(/^(?:https?:\/\/|www\.)[^\s<]*[^\s<?!.,:*_~'")\]]/);
+      if (bare) {
+        const url = trimUnbalancedParens(bare[0]);
+        const href = url.startsWith('www.') ? `http://${url}` : url;
+        push({ type: 'link', href: sanitizeUrl(href), children: [{ type: 'text', text: url }] });
+        i += url.length;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_' || char === '~') {
+      const emphasis = parseEmphasis(text, i, definitions);
+      if (emphasis) {
+        pushText(emphasis.leading || '');
+        push(emphasis.node);
+        i = emphasis.end;
+        continue;
+      }
+
+      // An unmatched run is literal text
+      const run = text.slice(i).match(char === '~' ? /^~+/ : char === '*' ? /^\*+/ : /^_+/)![0];
+      pushText(run);
+      i += run.length;
+      continue;
+    }
+
+    pushText(char);
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+function findCodeSpanEnd(text: string, from: number, length: number): number {
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      if (run.length === length) {
+        return i;
+      }
+      i += run.length;
+    } else {
+      i++;
+    }
+  }
+  return -1;
+}
+
+function parseEmphasis(
+  text: string,
+  start: number,
+  definitions: Definitions
+): { leading?: string; node: MarkdownInline; end: number } | null {
+  const char = text[start];
+  const run = text.slice(start).match(char === '*' ? /^\*+/ : char === '_' ? /^_+/ : /^~+/)![0];
+
+  // Openers must be followed by non-whitespace; `_` may not open inside a word
+  const after = text[start + run.length];
+  if (!after || /\s/.test(after)) {
+    return null;
+  }
+  if (char === '_' && start > 0 && /[\p{L}\p{N}]/u.test(text[start - 1])) {
+    return null;
+  }
+
+  if (char === '~') {
+    if (run.length > 2) return null;
+    const close = findDelimiter(text, start + run.length, run);
+    if (close === -1) return null;
+    return {
+      node: { type: 'strikethrough', children: parseInline(text.slice(start + run.length, close), definitions) },
+      end: close + run.length,
+    };
+  }
+
+  // Try the longest delimiter first: *** is strong + emphasis. Opening
+  // delimiters left over when a shorter one closes stay literal.
+  for (const width of [3, 2, 1].filter(candidate => candidate <= run.length)) {
+    const delimiter = char.repeat(width);
+    const close = findDelimiter(text, start + run.length, delimiter);
+    if (close === -1) {
+      continue;
+    }
+
+    const inner = parseInline(text.slice(start + run.length, close), definitions);
+    const node: MarkdownInline = width === 3
+      ? { type: 'strong', children: [{ type: 'emphasis', children: inner }] }
+      : { type: width === 2 ? 'strong' : 'emphasis', children: inner };
+
+    return { leading: char.repeat(run.length - width), node, end: close + width };
+  }
+
+  return null;
+}
+
+/**
+ * Find a closing delimiter that is preceded by non-whitespace and is not
+ * part of a longer run, skipping code spans and escapes
+ */
+function findDelimiter(text: string, from: number, delimiter: string): number {
+  const char = delimiter[0];
+  let i = from;
+
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+
+    if (text[i] === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const close = findCodeSpanEnd(text, i + run.length, run.length);
+      i = close === -1 ? i + run.length : close + run.length;
+      continue;
+    }
+
+    if (text[i] === char) {
+      const run = text.slice(i).match(char === '*' ? /^\*+/ : char === '_' ? /^_+/ : /^~+/)![0];
+      const before = text[i - 1];
+      const after = text[i + run.length];
+      const closesHere = i > from && before && !/\s/.test(before)
+        && (char !== '_' || !after || !/[\p{L}\p{N}]/u.test(after));
+
+      if (closesHere && run.length === delimiter.length) {
+        return i;
+      }
+      // A longer run can close a shorter delimiter at its end (e.g. **bold *em***)
+      if (closesHere && run.length > delimiter.length && char !== '~') {
+        return i + run.length - delimiter.length;
+      }
+      i += run.length;
+      continue;
+    }
+
+    i++;
+  }
+
+  return -1;
+}
+
+function parseLink(
+  text: string,
+  start: number,
+  definitions: Definitions
+): { label: string; href: string; title?: string; end: number } | null {
+  // Find the matching ] allowing nested brackets
+  let depth = 0;
+  let labelEnd = -1;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const close = findCodeSpanEnd(text, i + run.length, run.length);
+      if (close !== -1) i = close + run.length - 1;
+    } else if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']') {
+      depth--;
+      if (depth === 0) {
+        labelEnd = i;
+        break;
+      }
+    }
+  }
+
+  if (labelEnd === -1) {
+    return null;
+  }
+
+  const label = text.slice(start + 1, labelEnd);
+  const rest = text.slice(labelEnd + 1);
+
+  // Inline: [label](url "title")
+  const inline = rest.match(/^\(\s*(?:<([^>\n]*)>|((?:[^\s()\\]|\\.|\((?:[^\s()\\]|\\.)*\))*))(?:\s+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?\s*\)/);
+  if (inline) {
+    return {
+      label,
+      href: (inline[1] ?? inline[2] ?? '').replace(/\\([!-/:-@[-`{-~])/g, '$1'),
+      title: inline[3] ?? inline[4] ?? inline[5],
+      end: labelEnd + 1 + inline[0].length,
+    };
+  }
+
+  // Reference: [label][ref], [label][] or [label]
+  const reference = rest.match(/^\[([^\]]*)\]/);
+  const key = normalizeLabel(reference && reference[1] ? reference[1] : label);
+  const definition = definitions.get(key);
+  if (definition) {
+    return {
+      label,
+      href: definition.href,
+      title: definition.title,
+      end: labelEnd + 1 + (reference ? reference[0].length : 0),
+    };
+  }
+
+  return null;
+}
+
+// GFM excludes a trailing ) from bare URLs unless it closes a ( in the URL
+function trimUnbalancedParens(url: string): string {
+  let result = url;
+  while (result.endsWith(')')) {
+    const opens = (result.match(/\(/g) || []).length;
+    const closes = (result.match(/\)/g) || []).length;
+    if (closes <= opens) break;
+    result = result.slice(0, -1);
+  }
+  return result;
+}
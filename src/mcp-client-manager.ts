@@ -0,0 +1,333 @@
+import {
+  AbortError,
+  MCPConnectionStatus,
+  MCPError,
+  MCPEvent,
+  MCPPrompt,
+  MCPPromptResult,
+  MCPResource,
+  MCPResourceContent,
+  MCPServerConfig,
+  MCPServerState,
+  MCPTool,
+  MCPToolResult,
+  WordPressConfig
+} from './types';
+import { WordPressMCPClient } from './mcp-client';
+import { DebugLog } from './debug-log';
+
+// Joins a server id and a tool or prompt name, e.g. "woocommerce__list-products"
+export const NAMESPACE_SEPARATOR = '__';
+
+interface ConnectedServer {
+  server: MCPServerConfig;
+  client: WordPressMCPClient;
+  state: MCPServerState;
+}
+
+/**
+ * Connects to every server in the registry and presents them as one.
+ *
+ * Tools and prompts from the first (this site's) server keep their names;
+ * the others are prefixed with their server id, so names never collide and
+ * calls can be routed back to the server that owns them.
+ */
+export class MCPClientManager {
+  private servers: ConnectedServer[] = [];
+  private eventListeners: Map<string, Set<(event: MCPEvent) => void>> = new Map();
+
+  constructor(
+    private config: WordPressConfig,
+    private debugLog?: DebugLog
+  ) {}
+
+  /**
+   * Add event listener
+   */
+  on(event: string, listener: (event: MCPEvent) => void): void {
+    if (!this.eventListeners.has(event)) {
+      this.eventListeners.set(event, new Set());
+    }
+    this.eventListeners.get(event)!.add(listener);
+  }
+
+  /**
+   * Remove event listener
+   */
+  off(event: string, listener: (event: MCPEvent) => void): void {
+    const listeners = this.eventListeners.get(event);
+    if (listeners) {
+      listeners.delete(listener);
+    }
+  }
+
+  /**
+   * Emit event
+   */
+  private emit(event: MCPEvent): void {
+    const listeners = this.eventListeners.get(event.type);
+    if (listeners) {
+      listeners.forEach(listener => {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error('Error in MCP event listener:', error);
+        }
+      });
+    }
+  }
+
+  /**
+   * Connect to all servers, replacing any previous connections.
+   *
+   * A server that fails to connect is reported in its state and does not
+   * prevent the others from being used. Rejects when none connected, or
+   * with an AbortError when another connect() started in the meantime.
+   */
+  async connect(servers: MCPServerConfig[]): Promise<MCPServerState[]> {
+    await this.disconnect();
+
+    const entries = servers.map(server => this.createServer(server));
+    this.servers = entries;
+    this.emitServers();
+
+    await Promise.all(entries.map(async entry => {
+      try {
+        await entry.client.connect(entry.server.url);
+        entry.state.serverInfo = await entry.client.initialize();
+        this.updateServer(entry, { status: 'connected', error: undefined });
+      } catch (error) {
+        console.error(`Failed to connect to MCP server "${entry.server.name}":`, error);
+        this.updateServer(entry, {
+          status: 'disconnected',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }));
+
+    if (this.servers !== entries) {
+      await Promise.all(entries.map(entry => entry.client.disconnect()));
+      throw new AbortError('Connection was superseded by a newer one');
+    }
+
+    this.emitLists();
+
+    if (!this.isConnected()) {
+      throw new MCPError('Could not connect to any MCP server', 'connect_failed');
+    }
+    return this.getServerStates();
+  }
+
+  /**
+   * Create a client for a server and mirror its events into the server state
+   */
+  private createServer(server: MCPServerConfig): ConnectedServer {
+    const client = new WordPressMCPClient(this.config, this.debugLog);
+    const entry: ConnectedServer = {
+      server,
+      client,
+      state: {
+        server,
+        status: 'connecting',
+        serverInfo: null,
+        counts: { tools: 0, resources: 0, prompts: 0 },
+      },
+    };
+
+    client.on('reconnecting', event => {
+      if (event.type === 'reconnecting') {
+        this.updateServer(entry, { status: 'reconnecting', reconnectAttempt: event.data.attempt });
+      }
+    });
+    client.on('reconnected', () => {
+      entry.state = { ...entry.state, status: 'connected', error: undefined };
+      this.emitLists();
+    });
+    client.on('disconnected', () => {
+      // disconnect() replaces the clients before they report it
+      if (this.servers.includes(entry)) {
+        entry.state = { ...entry.state, status: 'disconnected' };
+        this.emitLists();
+      }
+    });
+    client.on('initialized', event => {
+      if (event.type === 'initialized') {
+        this.updateServer(entry, { serverInfo: event.data });
+      }
+    });
+    client.on('error', event => {
+      if (event.type === 'error') {
+        this.updateServer(entry, { error: event.data.message });
+      }
+    });
+
+    // list_changed refreshes from any server update the merged lists; the
+    // initial load is published once every server has connected
+    const handleListUpdated = () => {
+      if (entry.state.status !== 'connecting') {
+        this.emitLists();
+      }
+    };
+    client.on('tools_updated', handleListUpdated);
+    client.on('resources_updated', handleListUpdated);
+    client.on('prompts_updated', handleListUpdated);
+
+    return entry;
+  }
+
+  private updateServer(entry: ConnectedServer, changes: Partial<MCPServerState>): void {
+    entry.state = { ...entry.state, ...changes };
+    this.emitServers();
+  }
+
+  private emitServers(): void {
+    this.emit({ type: 'servers_updated', data: this.getServerStates() });
+  }
+
+  private emitLists(): void {
+    this.emit({ type: 'tools_updated', data: this.getTools() });
+    this.emit({ type: 'resources_updated', data: this.getResources() });
+    this.emit({ type: 'prompts_updated', data: this.getPrompts() });
+    this.emitServers();
+  }
+
+  /**
+   * Servers whose tools, resources and prompts can be used
+   */
+  private connectedServers(): ConnectedServer[] {
+    return this.servers.filter(entry => entry.client.isConnected());
+  }
+
+  /**
+   * Name of a server's tool or prompt as presented to the model and the UI
+   */
+  private namespaced(entry: ConnectedServer, name: string): string {
+    return entry === this.servers[0] ? name : `${entry.server.id}${NAMESPACE_SEPARATOR}${name}`;
+  }
+
+  /**
+   * Find the server owning a namespaced tool or prompt name and its original name
+   */
+  private route(name: string, list: (client: WordPressMCPClient) => Array<{ name: string }>): { entry: ConnectedServer; name: string } {
+    for (const entry of this.connectedServers()) {
+      const item = list(entry.client).find(candidate => this.namespaced(entry, candidate.name) === name);
+      if (item) {
+        return { entry, name: item.name };
+      }
+    }
+    throw new MCPError(`No connected MCP server provides "${name}"`, 'unknown_name');
+  }
+
+  /**
+   * Call a tool on the server that provides it
+   */
+  async callTool(
+    name: string,
+    args: Record<string, any> = {},
+    signal?: AbortSignal
+  ): Promise<MCPToolResult> {
+    const route = this.route(name, client => client.getTools());
+    return route.entry.client.callTool(route.name, args, signal);
+  }
+
+  /**
+   * Read a resource from the first server that lists its URI
+   */
+  async readResource(uri: string, signal?: AbortSignal): Promise<MCPResourceContent> {
+    const connected = this.connectedServers();
+    const entry = connected.find(candidate =>
+      candidate.client.getResources().some(resource => resource.uri === uri)
+    ) ?? connected[0];
+
+    if (!entry) {
+      throw new MCPError('Not connected to MCP server');
+    }
+    return entry.client.readResource(uri, signal);
+  }
+
+  /**
+   * Render a prompt on the server that provides it
+   */
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<MCPPromptResult> {
+    const route = this.route(name, client => client.getPrompts());
+    return route.entry.client.getPrompt(route.name, args);
+  }
+
+  /**
+   * Disconnect from all servers
+   */
+  async disconnect(): Promise<void> {
+    const previous = this.servers;
+    this.servers = [];
+    await Promise.all(previous.map(entry => entry.client.disconnect()));
+  }
+
+  /**
+   * Whether at least one server is connected
+   */
+  isConnected(): boolean {
+    return this.connectedServers().length > 0;
+  }
+
+  /**
+   * Connection state of every server, in registry order
+   */
+  getServerStates(): MCPServerState[] {
+    return this.servers.map(entry => ({
+      ...entry.state,
+      counts: {
+        tools: entry.client.getTools().length,
+        resources: entry.client.getResources().length,
+        prompts: entry.client.getPrompts().length,
+      },
+    }));
+  }
+
+  /**
+   * Tools from all connected servers, namespaced
+   */
+  getTools(): MCPTool[] {
+    return this.connectedServers().flatMap(entry =>
+      entry.client.getTools().map(tool => ({
+        ...tool,
+        name: this.namespaced(entry, tool.name),
+        serverId: entry.server.id,
+        // Tell the model which system a prefixed tool acts on
+        description: entry === this.servers[0] ? tool.description : `[${entry.server.name}] ${tool.description}`,
+      }))
+    );
+  }
+
+  /**
+   * Resources from all connected servers
+   */
+  getResources(): MCPResource[] {
+    return this.connectedServers().flatMap(entry =>
+      entry.client.getResources().map(resource => ({ ...resource, serverId: entry.server.id }))
+    );
+  }
+
+  /**
+   * Prompts from all connected servers, namespaced
+   */
+  getPrompts(): MCPPrompt[] {
+    return this.connectedServers().flatMap(entry =>
+      entry.client.getPrompts().map(prompt => ({
+        ...prompt,
+        name: this.namespaced(entry, prompt.name),
+        serverId: entry.server.id,
+      }))
+    );
+  }
+}
+
+/**
+ * Overall status for the header: connected while any server is usable
+ */
+export function summarizeConnectionStatus(states: MCPServerState[]): MCPConnectionStatus {
+  const statuses = states.map(state => state.status);
+  if (statuses.includes('connected')) return 'connected';
+  if (statuses.includes('reconnecting')) return 'reconnecting';
+  if (statuses.includes('connecting')) return 'connecting';
+  return 'disconnected';
+}
@@ -1,5 +1,13 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {
+  StreamableHTTPClientTransport,
+  StreamableHTTPError,
+} from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { 
   MCPClient, 
   MCPInitializeResult, 
@@ -7,10 +15,26 @@ import {
   MCPToolResult, 
   MCPResource, 
   MCPResourceContent,
+  MCPPrompt,
+  MCPPromptResult,
   MCPError,
   MCPEvent,
+  AbortError,
   WordPressConfig
 } from './types';
+import { DebugLog, recordTransport } from './debug-log';
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Why a request failed at the transport level:
+ * - auth: the nonce was rejected (401/403); the request never ran
+ * - session: the server no longer knows the MCP session (404); the request never ran
+ * - network: the connection dropped or the server failed; the request may have run
+ */
+type ConnectionFailure = 'auth' | 'session' | 'network';
 
 /**
  * WordPress MCP Client implementation using the official TypeScript SDK
@@ -21,11 +45,19 @@ export class WordPressMCPClient implements MCPClient {
   private connected = false;
   private tools: MCPTool[] = [];
   private resources: MCPResource[] = [];
+  private prompts: MCPPrompt[] = [];
+  private initResult: MCPInitializeResult | null = null;
+  private reconnectPromise: Promise<boolean> | null = null;
   private eventListeners: Map<string, Set<(event: MCPEvent) => void>> = new Map();
 
+  private serverUrl: string;
+
   constructor(
-    private config: WordPressConfig
+    private config: WordPressConfig,
+    private debugLog?: DebugLog
   ) {
+    this.serverUrl = config.mcpUrl;
+
     // Initialize the MCP Client using the official SDK
     this.client = new Client(
       {
@@ -36,6 +68,25 @@ export class WordPressMCPClient implements MCPClient {
         capabilities: {}
       }
     );
+
+    this.registerListChangedHandlers();
+  }
+
+  /**
+   * Reload cached lists when the server reports they changed (e.g. abilities
+   * were registered or a plugin was activated). Each reload emits the
+   * matching *_updated event.
+   */
+  private registerListChangedHandlers(): void {
+    this.client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      await this.loadTools();
+    });
+    this.client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+      await this.loadResources();
+    });
+    this.client.setNotificationHandler(PromptListChangedNotificationSchema, async () => {
+      await this.loadPrompts();
+    });
   }
 
   /**
@@ -77,22 +128,12 @@ export class WordPressMCPClient implements MCPClient {
   /**
    * Connect to the MCP server using official SDK StreamableHTTPClientTransport
    */
-  async connect(_serverUrl: string): Promise<void> {
+  async connect(serverUrl: string): Promise<void> {
+    this.serverUrl = serverUrl;
+
     try {
-      // Use the direct MCP endpoint URL from WordPress configuration
-      const mcpEndpoint = this.config.mcpUrl;
-
-      // Create HTTP transport with WordPress authentication headers
-      this.transport = new StreamableHTTPClientTransport(new URL(mcpEndpoint), {
-        requestInit: {
-          headers: {
-            'X-WP-Nonce': this.config.nonce,
-            'Content-Type': 'application/json',
-          },
-        },
-      });
-      
       // Connect using the official SDK
+      this.transport = this.createTransport();
       await this.client.connect(this.transport);
 
       this.connected = true;
@@ -104,6 +145,157 @@ export class WordPressMCPClient implements MCPClient {
     }
   }
 
+  /**
+   * Create an HTTP transport to the MCP endpoint. The current nonce is only
+   * sent to servers on this site, so it never leaks to other origins.
+   * Passing a session id resumes that session instead of starting one.
+   */
+  private createTransport(sessionId?: string): StreamableHTTPClientTransport {
+    const url = new URL(this.serverUrl, window.location.href);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (url.origin === new URL(this.config.restUrl, window.location.href).origin) {
+      headers['X-WP-Nonce'] = this.config.nonce;
+    }
+
+    const transport = new StreamableHTTPClientTransport(url, {
+      requestInit: { headers },
+      sessionId,
+    });
+    if (this.debugLog) {
+      recordTransport(transport, this.serverUrl, this.debugLog);
+    }
+    return transport;
+  }
+
+  /**
+   * Fetch a fresh REST nonce for the logged-in user.
+   *
+   * The shared WordPressConfig is updated in place, so the other clients
+   * built from it send the new nonce on their next request.
+   */
+  async refreshNonce(): Promise<string> {
+    // WordPress core's rest-nonce action answers with the bare nonce, or "0"
+    // when the login cookie is no longer valid
+    const response = await fetch(`${this.config.ajaxUrl}?action=rest-nonce`, { credentials: 'same-origin' });
+    const nonce = (await response.text().catch(() => '')).trim();
+
+    if (!response.ok || !/^[a-f0-9]+$/i.test(nonce) || nonce === '0') {
+      throw new MCPError(`Nonce refresh failed with status ${response.status}`, 'nonce_refresh_failed');
+    }
+
+    this.config.nonce = nonce;
+    return nonce;
+  }
+
+  /**
+   * Run a request, reconnecting once if the transport fails.
+   *
+   * Requests rejected for auth or session reasons never reached the server's
+   * handler and are always retried. After a network failure only idempotent
+   * requests are retried, since the first attempt may already have run.
+   */
+  private async withReconnect<T>(
+    operation: () => Promise<T>,
+    idempotent: boolean,
+    signal?: AbortSignal
+  ): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      const failure = classifyConnectionError(error);
+      if (!failure || signal?.aborted) {
+        throw error;
+      }
+
+      await this.reconnect(failure);
+
+      if (failure === 'network' && !idempotent) {
+        throw error;
+      }
+      return operation();
+    }
+  }
+
+  /**
+   * Re-establish the connection, sharing one attempt between concurrent callers
+   */
+  private async reconnect(failure: ConnectionFailure): Promise<void> {
+    if (this.reconnectPromise) {
+      await this.reconnectPromise;
+      return;
+    }
+
+    this.reconnectPromise = this.reestablishConnection(failure);
+    let resumed: boolean;
+    try {
+      resumed = await this.reconnectPromise;
+    } finally {
+      this.reconnectPromise = null;
+    }
+
+    // A new session may come with different tools, resources and prompts
+    if (!resumed) {
+      await this.initialize();
+    }
+    this.emit({ type: 'reconnected', data: { resumed } });
+  }
+
+  /**
+   * Reconnect with exponential backoff. The existing MCP session is resumed
+   * when the server still knows it; otherwise a new one is initialized.
+   *
+   * Resolves with whether the session was resumed.
+   */
+  private async reestablishConnection(failure: ConnectionFailure): Promise<boolean> {
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= MAX_RECONNECT_ATTEMPTS; attempt++) {
+      const delay = attempt === 1
+        ? 0
+        : Math.min(INITIAL_RECONNECT_DELAY_MS * 2 ** (attempt - 2), MAX_RECONNECT_DELAY_MS);
+      this.emit({ type: 'reconnecting', data: { attempt, delay } });
+      if (delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+
+      try {
+        if (failure === 'auth') {
+          await this.refreshNonce();
+        }
+
+        const previous = this.transport;
+        const sessionId = failure === 'session' ? undefined : previous?.sessionId;
+
+        await this.client.close();
+        this.transport = this.createTransport(sessionId);
+        if (sessionId && previous?.protocolVersion) {
+          this.transport.setProtocolVersion(previous.protocolVersion);
+        }
+
+        // With a session id the SDK skips the handshake, so check the session is still alive
+        await this.client.connect(this.transport);
+        if (sessionId) {
+          await this.client.ping();
+        }
+
+        this.connected = true;
+        return sessionId !== undefined;
+      } catch (error) {
+        lastError = error;
+        failure = classifyConnectionError(error) || 'network';
+      }
+    }
+
+    this.connected = false;
+    const mcpError = new MCPError(
+      `Reconnection failed after ${MAX_RECONNECT_ATTEMPTS} attempts: ${lastError}`,
+      'reconnect_failed'
+    );
+    this.emit({ type: 'error', data: mcpError });
+    this.emit({ type: 'disconnected' });
+    throw mcpError;
+  }
+
   /**
    * Initialize the MCP session - SDK handles this automatically after connect
    */
@@ -113,26 +305,32 @@ export class WordPressMCPClient implements MCPClient {
     }
 
     try {
-      // The SDK has already handled initialization during connect()
-      // Load initial tools and resources using SDK methods
-      await Promise.all([
-        this.loadTools(),
-        this.loadResources(),
-      ]);
+      // The SDK has already handled initialization during connect();
+      // report what the server actually negotiated
+      const capabilities = this.client.getServerCapabilities() || {};
+      const serverVersion = this.client.getServerVersion();
 
-      // Create a compatible result object
       const initResult: MCPInitializeResult = {
-        protocolVersion: '2025-06-18',
-        capabilities: {
-          tools: {},
-          resources: {},
-          prompts: {},
-        },
+        protocolVersion: this.transport?.protocolVersion || 'unknown',
+        capabilities,
         serverInfo: {
-          name: 'WordPress MCP Server',
-          version: '1.0.0',
+          name: serverVersion?.name || 'unknown',
+          version: serverVersion?.version || 'unknown',
+          title: serverVersion?.title,
         },
+        instructions: this.client.getInstructions(),
       };
+      this.initResult = initResult;
+
+      // Only request the lists the server advertises
+      this.tools = [];
+      this.resources = [];
+      this.prompts = [];
+      await Promise.all([
+        capabilities.tools ? this.loadTools() : Promise.resolve(),
+        capabilities.resources ? this.loadResources() : Promise.resolve(),
+        capabilities.prompts ? this.loadPrompts() : Promise.resolve(),
+      ]);
       
       this.emit({ type: 'initialized', data: initResult });
       
@@ -161,17 +359,16 @@ export class WordPressMCPClient implements MCPClient {
   private async loadTools(): Promise<void> {
     try {
       // Use the SDK's listTools method - it handles all the protocol details
-      const result = await this.client.listTools();
+      const result = await this.withReconnect(() => this.client.listTools(), true);
 
       // Convert SDK tools format to our internal format
       this.tools = result.tools.map(tool => ({
         name: tool.name,
+        title: tool.title,
         description: tool.description || '',
-        inputSchema: {
-          type: 'object' as const,
-          properties: tool.inputSchema?.properties || {},
-          required: tool.inputSchema?.required || [],
-        },
+        inputSchema: { ...tool.inputSchema, type: 'object' as const },
+        outputSchema: tool.outputSchema ? { ...tool.outputSchema, type: 'object' as const } : undefined,
+        annotations: tool.annotations,
       }));
 
       this.emit({ type: 'tools_updated', data: this.tools });
@@ -182,16 +379,29 @@ export class WordPressMCPClient implements MCPClient {
   }
 
   /**
-   * Call a tool using the official MCP SDK
+   * Call a tool using the official MCP SDK.
+   *
+   * Aborting `signal` rejects with an AbortError; the SDK also sends the
+   * server a `notifications/cancelled` for the in-flight request.
    */
-  async callTool(name: string, args: Record<string, any> = {}): Promise<MCPToolResult> {
+  async callTool(
+    name: string,
+    args: Record<string, any> = {},
+    signal?: AbortSignal
+  ): Promise<MCPToolResult> {
     if (!this.connected) {
       throw new MCPError('Not connected to MCP server');
     }
 
     try {
       // Use the SDK's callTool method - it handles all the protocol details
-      const result = await this.client.callTool({ name, arguments: args });
+      const annotations = this.tools.find(tool => tool.name === name)?.annotations;
+      const idempotent = Boolean(annotations?.readOnlyHint || annotations?.idempotentHint);
+      const result = await this.withReconnect(
+        () => this.client.callTool({ name, arguments: args }, undefined, { signal }),
+        idempotent,
+        signal
+      );
 
       // Convert SDK result format to our internal format
       const toolResult: MCPToolResult = {
@@ -202,6 +412,10 @@ export class WordPressMCPClient implements MCPClient {
 
       return toolResult;
     } catch (error) {
+      if (signal?.aborted) {
+        throw new AbortError(`Tool "${name}" call was cancelled`);
+      }
+
       console.error(`Tool "${name}" call failed:`, error);
       const mcpError = error instanceof MCPError ? error : new MCPError(`Tool call failed: ${error}`);
       this.emit({ type: 'error', data: mcpError });
@@ -226,7 +440,7 @@ export class WordPressMCPClient implements MCPClient {
   private async loadResources(): Promise<void> {
     try {
       // Use the SDK's listResources method - it handles all the protocol details
-      const result = await this.client.listResources();
+      const result = await this.withReconnect(() => this.client.listResources(), true);
 
       // Convert SDK resources format to our internal format
       this.resources = result.resources.map(resource => ({
@@ -246,17 +460,25 @@ export class WordPressMCPClient implements MCPClient {
   /**
    * Read a resource using the official MCP SDK
    */
-  async readResource(uri: string): Promise<MCPResourceContent> {
+  async readResource(uri: string, signal?: AbortSignal): Promise<MCPResourceContent> {
     if (!this.connected) {
       throw new MCPError('Not connected to MCP server');
     }
 
     try {
       // Use the SDK's readResource method - it handles all the protocol details
-      const result = await this.client.readResource({ uri });
+      const result = await this.withReconnect(
+        () => this.client.readResource({ uri }, { signal }),
+        true,
+        signal
+      );
 
       return result;
     } catch (error) {
+      if (signal?.aborted) {
+        throw new AbortError(`Resource "${uri}" read was cancelled`);
+      }
+
       console.error(`Resource "${uri}" read failed:`, error);
       const mcpError = error instanceof MCPError ? error : new MCPError(`Resource read failed: ${error}`);
       this.emit({ type: 'error', data: mcpError });
@@ -264,6 +486,68 @@ export class WordPressMCPClient implements MCPClient {
     }
   }
 
+  /**
+   * List available prompts
+   */
+  async listPrompts(): Promise<MCPPrompt[]> {
+    if (!this.connected) {
+      throw new MCPError('Not connected to MCP server');
+    }
+
+    return this.prompts;
+  }
+
+  /**
+   * Load prompts using the official MCP SDK
+   */
+  private async loadPrompts(): Promise<void> {
+    try {
+      // Use the SDK's listPrompts method - it handles all the protocol details
+      const result = await this.withReconnect(() => this.client.listPrompts(), true);
+
+      // Convert SDK prompts format to our internal format
+      this.prompts = result.prompts.map(prompt => ({
+        name: prompt.name,
+        title: prompt.title,
+        description: prompt.description,
+        arguments: prompt.arguments?.map(argument => ({
+          name: argument.name,
+          description: argument.description,
+          required: argument.required,
+        })),
+      }));
+
+      this.emit({ type: 'prompts_updated', data: this.prompts });
+    } catch (error) {
+      console.error('Failed to load prompts via SDK:', error);
+      this.prompts = [];
+    }
+  }
+
+  /**
+   * Render a prompt with its arguments using the official MCP SDK
+   */
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<MCPPromptResult> {
+    if (!this.connected) {
+      throw new MCPError('Not connected to MCP server');
+    }
+
+    try {
+      // Use the SDK's getPrompt method - it handles all the protocol details
+      const result = await this.withReconnect(() => this.client.getPrompt({ name, arguments: args }), true);
+
+      return {
+        description: result.description,
+        messages: result.messages as MCPPromptResult['messages'],
+      };
+    } catch (error) {
+      console.error(`Prompt "${name}" failed:`, error);
+      const mcpError = error instanceof MCPError ? error : new MCPError(`Prompt request failed: ${error}`);
+      this.emit({ type: 'error', data: mcpError });
+      throw mcpError;
+    }
+  }
+
   /**
    * Disconnect from the MCP server using the official SDK
    */
@@ -278,6 +562,8 @@ export class WordPressMCPClient implements MCPClient {
       this.connected = false;
       this.tools = [];
       this.resources = [];
+      this.prompts = [];
+      this.initResult = null;
       this.emit({ type: 'disconnected' });
     } catch (error) {
       console.error('Error during SDK disconnect:', error);
@@ -291,6 +577,13 @@ export class WordPressMCPClient implements MCPClient {
     return this.connected;
   }
 
+  /**
+   * Get the negotiated initialize result, or null before initialize()
+   */
+  getServerInfo(): MCPInitializeResult | null {
+    return this.initResult;
+  }
+
   /**
    * Get available tools (cached)
    */
@@ -306,23 +599,26 @@ export class WordPressMCPClient implements MCPClient {
   }
 
   /**
-   * Convert MCP tool to OpenAI function format
+   * Get available prompts (cached)
    */
-  toolToOpenAIFunction(tool: MCPTool) {
-    return {
-      type: 'function' as const,
-      function: {
-        name: tool.name,
-        description: tool.description,
-        parameters: tool.inputSchema,
-      },
-    };
+  getPrompts(): MCPPrompt[] {
+    return [...this.prompts];
   }
+}
 
-  /**
-   * Convert all tools to OpenAI functions format
-   */
-  getToolsForOpenAI() {
-    return this.tools.map(tool => this.toolToOpenAIFunction(tool));
+/**
+ * Classify a transport error, or return null for errors a reconnect cannot fix
+ */
+function classifyConnectionError(error: unknown): ConnectionFailure | null {
+  if (error instanceof StreamableHTTPError) {
+    if (error.code === 401 || error.code === 403) return 'auth';
+    if (error.code === 404) return 'session';
+    if (error.code !== undefined && error.code >= 500) return 'network';
+    return null;
   }
-}
\ No newline at end of file
+
+  // fetch() rejects with a TypeError when the request could not be sent
+  if (error instanceof TypeError) return 'network';
+
+  return null;
+}
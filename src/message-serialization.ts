@@ -0,0 +1,205 @@
+import { ChatMessage, MessageAttachment, TokenUsage, ToolCall, ToolResult } from './types';
+
+/**
+ * Version of the stored chat message shape.
+ *
+ * 1 - content and role only (messages saved before versioning have no field)
+ * 2 - adds tool calls, tool results, model, token usage and the stopped flag
+ * 3 - adds resource attachments
+ * 4 - adds argument validation errors on tool calls
+ * 5 - stores tool call arguments as a JSON string, so empty objects stay objects
+ */
+export const MESSAGE_SCHEMA_VERSION = 5;
+
+/**
+ * Chat message as sent to and returned by the /chat history API
+ */
+export interface SerializedChatMessage {
+  schema_version: number;
+  id: string;
+  role: ChatMessage['role'];
+  message: string;
+  timestamp: string;
+  tool_calls?: Array<{
+    id: string;
+    name: string;
+    arguments: string | Record<string, any>; // A JSON string since version 5
+    approval?: ToolCall['approval'];
+    validation_error?: string;
+  }>;
+  tool_results?: Array<{
+    id: string;
+    result: any;
+    error?: string;
+  }>;
+  model?: string;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+  stopped?: boolean;
+  attachments?: Array<{
+    uri: string;
+    name: string;
+    mime_type?: string;
+    text: string;
+  }>;
+}
+
+/**
+ * Convert a ChatMessage into the versioned storage shape
+ */
+export function serializeMessage(message: ChatMessage): SerializedChatMessage {
+  const serialized: SerializedChatMessage = {
+    schema_version: MESSAGE_SCHEMA_VERSION,
+    id: message.id,
+    role: message.role,
+    message: message.content,
+    timestamp: message.timestamp.toISOString(),
+  };
+
+  if (message.toolCalls && message.toolCalls.length > 0) {
+    serialized.tool_calls = message.toolCalls.map(call => ({
+      id: call.id,
+      name: call.name,
+      arguments: JSON.stringify(call.arguments),
+      approval: call.approval,
+      validation_error: call.validationError,
+    }));
+  }
+
+  if (message.toolResults && message.toolResults.length > 0) {
+    serialized.tool_results = message.toolResults.map(result => ({
+      id: result.id,
+      result: result.result,
+      error: result.error,
+    }));
+  }
+
+  if (message.model) {
+    serialized.model = message.model;
+  }
+
+  if (message.usage) {
+    serialized.usage = {
+      prompt_tokens: message.usage.promptTokens,
+      completion_tokens: message.usage.completionTokens,
+      total_tokens: message.usage.totalTokens,
+    };
+  }
+
+  if (message.stopped) {
+    serialized.stopped = true;
+  }
+
+  if (message.attachments && message.attachments.length > 0) {
+    serialized.attachments = message.attachments.map(attachment => ({
+      uri: attachment.uri,
+      name: attachment.name,
+      mime_type: attachment.mimeType,
+      text: attachment.text,
+    }));
+  }
+
+  return serialized;
+}
+
+/**
+ * Rebuild a ChatMessage from a stored history item of any schema version
+ */
+export function deserializeMessage(item: any): ChatMessage {
+  const message: ChatMessage = {
+    id: item.id || `loaded-${Date.now()}-${Math.random()}`,
+    role: item.role === 'user' || item.role === 'system' ? item.role : 'assistant',
+    // Version 1 stored the text under `content`
+    content: item.message ?? item.content ?? '',
+    timestamp: new Date(item.timestamp),
+  };
+
+  if ((item.schema_version || 1) < 2) {
+    return message;
+  }
+
+  if (Array.isArray(item.tool_calls) && item.tool_calls.length > 0) {
+    message.toolCalls = item.tool_calls.map((call: any): ToolCall => ({
+      id: call.id,
+      name: call.name,
+      arguments: parseStoredArguments(call.arguments),
+      approval: call.approval,
+      validationError: call.validation_error || undefined,
+    }));
+  }
+
+  if (Array.isArray(item.tool_results) && item.tool_results.length > 0) {
+    message.toolResults = item.tool_results.map((result: any): ToolResult => ({
+      id: result.id,
+      result: result.result ?? null,
+      error: result.error || undefined,
+    }));
+  }
+
+  // A call without a stored result (e.g. a truncated save) would be rejected by the API
+  if (message.toolCalls) {
+    const answered = new Set((message.toolResults || []).map(result => result.id));
+    const unanswered = message.toolCalls.filter(call => !answered.has(call.id));
+    if (unanswered.length > 0) {
+      message.toolResults = [
+        ...(message.toolResults || []),
+        ...unanswered.map(call => ({
+          id: call.id,
+          result: null,
+          error: 'No result was recorded for this tool call.',
+        })),
+      ];
+    }
+  }
+
+  if (item.model) {
+    message.model = item.model;
+  }
+
+  if (item.usage) {
+    message.usage = deserializeUsage(item.usage);
+  }
+
+  if (item.stopped) {
+    message.stopped = true;
+  }
+
+  if (Array.isArray(item.attachments) && item.attachments.length > 0) {
+    message.attachments = item.attachments.map((attachment: any): MessageAttachment => ({
+      uri: attachment.uri,
+      name: attachment.name || attachment.uri,
+      mimeType: attachment.mime_type || undefined,
+      text: attachment.text || '',
+    }));
+  }
+
+  return message;
+}
+
+function deserializeUsage(usage: any): TokenUsage {
+  return {
+    promptTokens: Number(usage.prompt_tokens) || 0,
+    completionTokens: Number(usage.completion_tokens) || 0,
+    totalTokens: Number(usage.total_tokens) || 0,
+  };
+}
+
+/**
+ * Tool call arguments from storage. Before version 5 the server stored them
+ * as PHP arrays, which turned an empty object into [], and providers reject
+ * anything but an object.
+ */
+function parseStoredArguments(value: unknown): Record<string, any> {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      parsed = undefined;
+    }
+  }
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, any> : {};
+}
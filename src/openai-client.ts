@@ -1,50 +1,95 @@
 import OpenAI from 'openai';
 import {
+  AssistantResponse,
   ChatCompletionRequest,
   ChatMessage,
   ToolCall,
   OpenAIError,
+  AbortError,
   MCPTool,
+  StreamChunk,
+  TokenUsage,
+  OpenAIFunctionTool,
   WordPressConfig
 } from './types';
-
-const DEFAULT_MODEL = "gpt-4o-mini";
+import { withAttachments } from './resource-tools';
+import {
+  TranslatedTool,
+  removeNullOptionalArguments,
+  supportsStrictFunctions,
+  translateTools
+} from './tool-schema';
+import { BaseLLMClient, TextCompletionMessage, TextCompletionOptions } from './base-llm-client';
+
+export const DEFAULT_MODEL = "gpt-4o-mini";
+// A common Ollama model; local servers list the ones actually pulled
+export const LOCAL_DEFAULT_MODEL = 'llama3.1';
+
+// Offered when the endpoint cannot list models (e.g. on Cloudflare Gateway)
+export const FALLBACK_MODELS = [
+  'gpt-4',
+  'gpt-4-turbo',
+  'gpt-4o',
+  'gpt-4o-mini',
+  'gpt-3.5-turbo',
+];
+
+// Model families returned by /models that cannot be used for chat completions
+const NON_CHAT_MODEL_PATTERN = /embedding|tts|whisper|dall-e|moderation|transcribe|realtime|audio|image|search/i;
 
 /**
- * OpenAI client that proxies requests through WordPress REST API
+ * OpenAI client that proxies requests through WordPress REST API.
+ *
+ * Also serves local Ollama or other OpenAI-compatible servers, which the
+ * proxy reaches under `ai/local`.
  */
-export class CloudflareOpenAIClient {
+export class CloudflareOpenAIClient extends BaseLLMClient {
+  readonly defaultModel: string;
   private openai: OpenAI;
 
-  constructor(private wpConfig: WordPressConfig) {
+  constructor(wpConfig: WordPressConfig, readonly id: 'openai' | 'local' = 'openai') {
+    super(wpConfig);
+    this.defaultModel = id === 'local' ? LOCAL_DEFAULT_MODEL : DEFAULT_MODEL;
+
     // Use WordPress proxy endpoint - all authentication handled server-side
     this.openai = new OpenAI({
       apiKey: 'proxy',
-      baseURL: `${this.wpConfig.restUrl}ai`,
+      baseURL: id === 'local' ? `${this.wpConfig.restUrl}ai/local` : `${this.wpConfig.restUrl}ai`,
       dangerouslyAllowBrowser: true,
-      defaultHeaders: {
-        'X-WP-Nonce': this.wpConfig.nonce,
-      },
     });
   }
 
+  /**
+   * Per-request options. The nonce is read on every request because the MCP
+   * client refreshes it in the shared config when it goes stale.
+   */
+  private requestOptions(signal?: AbortSignal) {
+    return {
+      signal,
+      headers: { 'X-WP-Nonce': this.wpConfig.nonce },
+    };
+  }
+
   /**
    * Send a chat completion request
    */
-  async createChatCompletion(request: ChatCompletionRequest): Promise<any> {
+  async createChatCompletion(request: ChatCompletionRequest, signal?: AbortSignal): Promise<any> {
     try {
       const response = await this.openai.chat.completions.create({
-        model: request.model || DEFAULT_MODEL,
+        model: request.model || this.defaultModel,
         messages: request.messages as any,
         tools: request.tools,
         tool_choice: request.tool_choice,
         stream: request.stream,
         max_tokens: request.max_tokens,
         temperature: request.temperature,
-      });
+      }, this.requestOptions(signal));
 
       return response;
     } catch (error: any) {
+      if (signal?.aborted) {
+        throw new AbortError();
+      }
       throw new OpenAIError(
         error.message || 'OpenAI API request failed',
         error.status,
@@ -54,22 +99,31 @@ export class CloudflareOpenAIClient {
   }
 
   /**
-   * Create a streaming chat completion
+   * Create a streaming chat completion.
+   *
+   * Content deltas and tool-call deltas are forwarded to `onChunk` as they
+   * arrive. Tool-call fragments are accumulated by their `index` so the
+   * resolved response carries complete ToolCall objects.
    */
   async createStreamingCompletion(
     request: ChatCompletionRequest,
-    onChunk: (chunk: any) => void,
-    onComplete: (message: string) => void,
-    onError: (error: Error) => void
-  ): Promise<void> {
+    onChunk: (chunk: StreamChunk) => void,
+    signal?: AbortSignal
+  ): Promise<AssistantResponse> {
     try {
       const stream = await this.openai.chat.completions.create({
         ...request,
+        model: request.model || this.defaultModel,
         messages: request.messages as any,
         stream: true,
-      });
+        stream_options: { include_usage: true },
+      }, this.requestOptions(signal));
 
       let fullMessage = '';
+      let model: string | undefined;
+      let usage: TokenUsage | undefined;
+      let finishReason: string | undefined;
+      const partialToolCalls = new Map<number, { id: string; name: string; arguments: string }>();
 
       for await (const chunk of stream) {
         const delta = chunk.choices[0]?.delta;
@@ -83,23 +137,62 @@ export class CloudflareOpenAIClient {
         }
 
         if (delta?.tool_calls) {
-          onChunk({
-            type: 'tool_calls',
-            tool_calls: delta.tool_calls,
-          });
+          for (const toolCallDelta of delta.tool_calls) {
+            const partial = partialToolCalls.get(toolCallDelta.index) || { id: '', name: '', arguments: '' };
+            partial.id = toolCallDelta.id || partial.id;
+            partial.name += toolCallDelta.function?.name || '';
+            partial.arguments += toolCallDelta.function?.arguments || '';
+            partialToolCalls.set(toolCallDelta.index, partial);
+
+            onChunk({
+              type: 'tool_call',
+              index: toolCallDelta.index,
+              id: partial.id,
+              name: this.offeredTools.get(partial.name)?.tool.name ?? partial.name,
+              arguments: partial.arguments,
+            });
+          }
         }
 
-        if (chunk.choices[0]?.finish_reason) {
-          onComplete(fullMessage);
-          break;
+        model = chunk.model || model;
+        finishReason = chunk.choices[0]?.finish_reason || finishReason;
+
+        // The usage chunk arrives after the finish_reason chunk, so read to the end
+        if (chunk.usage) {
+          usage = this.convertUsage(chunk.usage);
         }
       }
+
+      const result: AssistantResponse = {
+        message: fullMessage,
+        model,
+        usage,
+        finishReason,
+      };
+
+      if (partialToolCalls.size > 0) {
+        const orderedToolCalls = [...partialToolCalls.entries()]
+          .sort(([a], [b]) => a - b)
+          .map(([, call]) => ({
+            id: call.id,
+            function: { name: call.name, arguments: call.arguments },
+          }));
+        result.toolCalls = this.processToolCalls(orderedToolCalls);
+      }
+
+      return result;
     } catch (error: any) {
-      onError(new OpenAIError(
+      if (signal?.aborted) {
+        throw new AbortError();
+      }
+      if (error instanceof OpenAIError) {
+        throw error;
+      }
+      throw new OpenAIError(
         error.message || 'Streaming request failed',
         error.status,
         error.code
-      ));
+      );
     }
   }
 
@@ -113,7 +206,7 @@ export class CloudflareOpenAIClient {
       if (message.role === 'system' || message.role === 'user') {
         openaiMessages.push({
           role: message.role,
-          content: message.content,
+          content: withAttachments(message),
         });
       } else if (message.role === 'assistant') {
         const assistantMessage: any = {
@@ -127,7 +220,7 @@ export class CloudflareOpenAIClient {
             id: call.id,
             type: 'function',
             function: {
-              name: call.name,
+              name: this.toFunctionName(call.name),
               arguments: JSON.stringify(call.arguments),
             },
           }));
@@ -152,28 +245,82 @@ export class CloudflareOpenAIClient {
   }
 
   /**
-   * Convert MCP tools to OpenAI tools format
+   * Convert MCP tools to OpenAI tools format, in strict mode when the
+   * conversation's model supports it
+   */
+  convertTools(mcpTools: MCPTool[]): OpenAIFunctionTool[] {
+    return [...this.translateTools(mcpTools).values()].map(translated => translated.definition);
+  }
+
+  // Strict mode is only assumed for OpenAI itself; local servers vary
+  protected translateTools(mcpTools: MCPTool[]): Map<string, TranslatedTool> {
+    return translateTools(mcpTools, this.id === 'openai' && supportsStrictFunctions(this.model));
+  }
+
+  /**
+   * Convert an OpenAI usage block to TokenUsage
    */
-  convertMCPToolsToOpenAI(mcpTools: MCPTool[]): any[] {
-    return mcpTools.map(tool => ({
-      type: 'function',
-      function: {
-        name: tool.name,
-        description: tool.description,
-        parameters: tool.inputSchema,
-      },
-    }));
+  private convertUsage(usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  }): TokenUsage {
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens,
+    };
   }
 
   /**
    * Process tool calls from OpenAI response
    */
   processToolCalls(toolCalls: any[]): ToolCall[] {
-    return toolCalls.map(call => ({
-      id: call.id,
-      name: call.function.name,
-      arguments: JSON.parse(call.function.arguments || '{}'),
-    }));
+    return toolCalls.map(call => {
+      // Function names were sanitized for OpenAI; map back to the MCP tool
+      const offered = this.offeredTools.get(call.function.name);
+      const toolCall: ToolCall = {
+        id: call.id,
+        name: offered?.tool.name ?? call.function.name,
+        arguments: {},
+      };
+
+      try {
+        const args = JSON.parse(call.function.arguments || '{}');
+        if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+          throw new Error('expected a JSON object');
+        }
+        toolCall.arguments = offered?.definition.function.strict
+          ? removeNullOptionalArguments(args, offered.tool.inputSchema)
+          : args;
+      } catch (error) {
+        // Reported back to the model by the agent loop instead of failing the turn
+        const reason = error instanceof Error ? error.message : String(error);
+        toolCall.validationError = `arguments are not valid JSON (${reason}): ${call.function.arguments}`;
+      }
+
+      return toolCall;
+    });
+  }
+
+  /**
+   * Build a chat completion request for a conversation and tool set
+   */
+  private buildRequest(conversation: ChatMessage[], tools: MCPTool[]): ChatCompletionRequest {
+    this.offeredTools = this.translateTools(tools);
+    const messages = [
+      this.createWordPressSystemMessage(),
+      ...this.convertMessagesToOpenAI(conversation),
+    ];
+
+    return {
+      model: this.model,
+      messages,
+      tools: tools.length > 0 ? [...this.offeredTools.values()].map(translated => translated.definition) : undefined,
+      tool_choice: tools.length > 0 ? 'auto' : undefined,
+      temperature: this.temperature,
+      max_tokens: this.maxTokens,
+    };
   }
 
   /**
@@ -183,55 +330,96 @@ export class CloudflareOpenAIClient {
     message: string,
     context: ChatMessage[] = [],
     tools: MCPTool[] = []
-  ): Promise<{
-    message: string;
-    toolCalls?: ToolCall[];
-  }> {
-    const messages = this.convertMessagesToOpenAI([
-      ...context,
-      {
-        id: `user-${Date.now()}`,
-        role: 'user',
-        content: message,
-        timestamp: new Date(),
-      },
-    ]);
+  ): Promise<AssistantResponse> {
+    return this.sendMessages(
+      [
+        ...context,
+        {
+          id: `user-${Date.now()}`,
+          role: 'user',
+          content: message,
+          timestamp: new Date(),
+        },
+      ],
+      tools
+    );
+  }
 
-    const request: ChatCompletionRequest = {
-      model: DEFAULT_MODEL,
-      messages,
-      tools: tools.length > 0 ? this.convertMCPToolsToOpenAI(tools) : undefined,
-      tool_choice: tools.length > 0 ? 'auto' : undefined,
-      temperature: 0.7,
-      max_tokens: 2000,
-    };
+  /**
+   * Send a full conversation (including prior tool calls and results)
+   */
+  async sendMessages(
+    conversation: ChatMessage[],
+    tools: MCPTool[] = [],
+    signal?: AbortSignal
+  ): Promise<AssistantResponse> {
+    const request = this.buildRequest(conversation, tools);
+
+    return this.recordRequest('send', request, async () => {
+      try {
+        const response = await this.createChatCompletion(request, signal);
+        const choice = response.choices[0];
+        
+        if (!choice) {
+          throw new OpenAIError('No response from OpenAI');
+        }
 
-    try {
-      const response = await this.createChatCompletion(request);
-      const choice = response.choices[0];
-      
-      if (!choice) {
-        throw new OpenAIError('No response from OpenAI');
-      }
+        const result: AssistantResponse = {
+          message: choice.message.content || '',
+          model: response.model,
+          usage: response.usage ? this.convertUsage(response.usage) : undefined,
+          finishReason: choice.finish_reason || undefined,
+        };
 
-      const result: {
-        message: string;
-        toolCalls?: ToolCall[];
-      } = {
-        message: choice.message.content || '',
-      };
+        if (choice.message.tool_calls) {
+          result.toolCalls = this.processToolCalls(choice.message.tool_calls);
+        }
 
-      if (choice.message.tool_calls) {
-        result.toolCalls = this.processToolCalls(choice.message.tool_calls);
+        return result;
+      } catch (error) {
+        if (error instanceof OpenAIError || error instanceof AbortError) {
+          throw error;
+        }
+        throw new OpenAIError(`Failed to send message: ${error}`);
       }
+    });
+  }
 
-      return result;
-    } catch (error) {
-      if (error instanceof OpenAIError) {
-        throw error;
-      }
-      throw new OpenAIError(`Failed to send message: ${error}`);
-    }
+  /**
+   * Stream a reply for a full conversation, resolving with the complete response
+   */
+  async streamMessages(
+    conversation: ChatMessage[],
+    tools: MCPTool[] = [],
+    onChunk: (chunk: StreamChunk) => void,
+    signal?: AbortSignal
+  ): Promise<AssistantResponse> {
+    const request = this.buildRequest(conversation, tools);
+
+    return this.recordRequest('stream', request, () =>
+      this.createStreamingCompletion(request, onChunk, signal)
+    );
+  }
+
+  /**
+   * Complete a short text exchange without tools
+   */
+  async completeText(
+    messages: TextCompletionMessage[],
+    options: TextCompletionOptions,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const request: ChatCompletionRequest = {
+      model: options.model || this.model,
+      messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+    };
+
+    return this.recordRequest('complete', request, async () => {
+      const response = await this.createChatCompletion(request, signal);
+      return response.choices?.[0]?.message?.content?.trim() || '';
+    });
   }
 
   /**
@@ -239,18 +427,16 @@ export class CloudflareOpenAIClient {
    */
   async getAvailableModels(): Promise<string[]> {
     try {
-      const response = await this.openai.models.list();
-      return response.data.map(model => model.id);
+      const response = await this.openai.models.list(this.requestOptions());
+      const models = response.data
+        .map(model => model.id)
+        .filter(id => !NON_CHAT_MODEL_PATTERN.test(id))
+        .sort();
+      return models.length > 0 ? models : this.fallbackModels();
     } catch (error) {
       // If models endpoint is not available (e.g., on Cloudflare Gateway),
       // return common OpenAI models
-      return [
-        'gpt-4',
-        'gpt-4-turbo',
-        'gpt-4o',
-        'gpt-4o-mini',
-        'gpt-3.5-turbo',
-      ];
+      return this.fallbackModels();
     }
   }
 
@@ -267,44 +453,7 @@ export class CloudflareOpenAIClient {
     }
   }
 
-  /**
-   * Get usage statistics (if available)
-   */
-  async getUsage(): Promise<any> {
-    // This would depend on the specific Cloudflare Gateway or OpenAI API features
-    // For now, return a placeholder
-    return {
-      message: 'Usage statistics not available in browser environment',
-    };
-  }
-
-  /**
-   * Create a system message for WordPress context
-   */
-  createWordPressSystemMessage(): any {
-    return {
-      role: 'system',
-      content: `You are a helpful AI assistant integrated into a WordPress site. You can interact with WordPress through MCP (Model Context Protocol) tools.
-
-Available capabilities:
-- Create, read, update, and manage WordPress posts and pages
-- Manage users and user roles
-- Access site information and settings
-- Interact with the WordPress database through safe, predefined tools
-
-Guidelines:
-- Always be helpful and provide accurate information
-- When performing WordPress actions, explain what you're doing
-- Ask for confirmation before making significant changes
-- Respect user permissions and WordPress security
-- Provide clear, actionable responses
-
-Site Information:
-- Site URL: ${this.wpConfig.restUrl.replace('/wp-json/', '')}
-- Current User: ${this.wpConfig.currentUser.display_name}
-- WordPress REST API: ${this.wpConfig.restUrl}
-
-You should use the available MCP tools to interact with WordPress when users request actions like creating posts, managing content, or retrieving site information.`,
-    };
+  private fallbackModels(): string[] {
+    return this.id === 'local' ? [this.defaultModel] : [...FALLBACK_MODELS];
   }
 }
\ No newline at end of file
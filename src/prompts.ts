@@ -0,0 +1,58 @@
+import { ChatMessage, MCPPrompt, MCPPromptResult, MessageAttachment } from './types';
+
+/**
+ * Prompts whose name or title matches what was typed after the `/`
+ */
+export function filterPrompts(prompts: MCPPrompt[], query: string): MCPPrompt[] {
+  const term = query.trim().toLowerCase();
+  if (!term) {
+    return prompts;
+  }
+
+  return prompts.filter(prompt =>
+    prompt.name.toLowerCase().includes(term) || (prompt.title || '').toLowerCase().includes(term)
+  );
+}
+
+/**
+ * Names of required arguments that have no value yet
+ */
+export function missingPromptArguments(prompt: MCPPrompt, values: Record<string, string>): string[] {
+  return (prompt.arguments || [])
+    .filter(argument => argument.required && !values[argument.name]?.trim())
+    .map(argument => argument.name);
+}
+
+/**
+ * Turn the messages of a rendered prompt into chat messages. Embedded
+ * resources become attachments; images are referenced but not inlined.
+ */
+export function promptResultToMessages(result: MCPPromptResult): ChatMessage[] {
+  const now = Date.now();
+
+  return result.messages.map((promptMessage, index) => {
+    const { content } = promptMessage;
+    const message: ChatMessage = {
+      id: `prompt-${now}-${index}`,
+      role: promptMessage.role,
+      content: '',
+      timestamp: new Date(),
+    };
+
+    if (content.type === 'text') {
+      message.content = content.text || '';
+    } else if (content.type === 'resource' && content.resource) {
+      const attachment: MessageAttachment = {
+        uri: content.resource.uri,
+        name: content.resource.uri,
+        mimeType: content.resource.mimeType,
+        text: content.resource.text ?? `[Binary content (${content.resource.mimeType || 'unknown type'}) is not shown]`,
+      };
+      message.attachments = [attachment];
+    } else {
+      message.content = `[${content.type} content (${content.mimeType || 'unknown type'}) is not shown]`;
+    }
+
+    return message;
+  });
+}
@@ -0,0 +1,30 @@
+import { MCPServerConfig, PluginSettings, WordPressConfig } from './types';
+
+// Site switcher value for the site the plugin is installed on
+export const LOCAL_SITE_ID = 'local';
+
+/**
+ * MCP servers to connect to for the selected site.
+ *
+ * This site uses the whole server registry. A remote site is a single
+ * server reached through the plugin's MCP proxy, which adds the stored
+ * credentials. An unknown site id falls back to this site.
+ */
+export function getSiteServers(
+  settings: PluginSettings,
+  siteId: string,
+  wpConfig: WordPressConfig
+): MCPServerConfig[] {
+  // A remote site saved with this site's id must never take its place
+  const site = siteId === LOCAL_SITE_ID
+    ? undefined
+    : settings.remote_sites?.find(remote => remote.id === siteId);
+  if (site) {
+    return [{ id: site.id, name: site.name, url: `${wpConfig.restUrl}mcp-proxy/${encodeURIComponent(site.id)}` }];
+  }
+
+  // Older plugin versions only report mcp_server_url
+  return settings.mcp_servers?.length
+    ? settings.mcp_servers
+    : [{ id: 'wordpress', name: 'WordPress', url: settings.mcp_server_url }];
+}
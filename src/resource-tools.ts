@@ -0,0 +1,137 @@
+import {
+  ChatMessage,
+  MCPResource,
+  MCPResourceContent,
+  MCPTool,
+  MCPToolResult,
+  MessageAttachment,
+} from './types';
+import { MCPClientManager } from './mcp-client-manager';
+
+/**
+ * Name of the client-side tool that lets the model read MCP resources.
+ * It is answered by MCPClientManager.readResource(), not by a server's
+ * tools/call.
+ */
+export const READ_RESOURCE_TOOL_NAME = 'read_resource';
+
+// Keeps a single attachment from crowding out the rest of the conversation
+export const MAX_ATTACHMENT_CHARS = 20000;
+
+/**
+ * Describe the read_resource tool for the model, listing the resources it
+ * may read
+ */
+export function createReadResourceTool(resources: MCPResource[]): MCPTool {
+  const catalog = resources
+    .map(resource => `- ${resource.uri}${resource.name ? ` (${resource.name})` : ''}${resource.description ? `: ${resource.description}` : ''}`)
+    .join('\n');
+
+  return {
+    name: READ_RESOURCE_TOOL_NAME,
+    description: `Read the contents of a WordPress MCP resource by URI. Available resources:\n${catalog}`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uri: {
+          type: 'string',
+          description: 'URI of the resource to read',
+          enum: resources.map(resource => resource.uri),
+        },
+      },
+      required: ['uri'],
+    },
+    annotations: {
+      title: 'Read resource',
+      readOnlyHint: true,
+    },
+  };
+}
+
+/**
+ * Add the read_resource tool to a tool list when the server has resources
+ * and does not define a tool of the same name itself
+ */
+export function withResourceTool(tools: MCPTool[], resources: MCPResource[]): MCPTool[] {
+  if (resources.length === 0 || tools.some(tool => tool.name === READ_RESOURCE_TOOL_NAME)) {
+    return tools;
+  }
+
+  return [...tools, createReadResourceTool(resources)];
+}
+
+/**
+ * Answer a read_resource call in the same shape as an MCP tool result
+ */
+export async function readResourceAsToolResult(
+  mcpClient: MCPClientManager,
+  args: Record<string, any>,
+  signal?: AbortSignal
+): Promise<MCPToolResult> {
+  if (typeof args.uri !== 'string' || !args.uri) {
+    return {
+      content: [{ type: 'text', text: 'The "uri" argument is required.' }],
+      isError: true,
+    };
+  }
+
+  const content = await mcpClient.readResource(args.uri, signal);
+
+  return {
+    content: [{ type: 'text', text: resourceContentToText(content) }],
+  };
+}
+
+/**
+ * Flatten resource contents to text. Binary blobs are described rather than
+ * inlined.
+ */
+export function resourceContentToText(content: MCPResourceContent): string {
+  return content.contents
+    .map(item => {
+      if (typeof item.text === 'string') {
+        return item.text;
+      }
+      if (item.blob) {
+        return `[Binary content (${item.mimeType || 'unknown type'}) at ${item.uri} is not shown]`;
+      }
+      return '';
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Read a resource into an attachment for the next user message
+ */
+export async function createResourceAttachment(
+  mcpClient: MCPClientManager,
+  resource: MCPResource
+): Promise<MessageAttachment> {
+  const content = await mcpClient.readResource(resource.uri);
+  const text = resourceContentToText(content);
+
+  return {
+    uri: resource.uri,
+    name: resource.name || resource.uri,
+    mimeType: resource.mimeType,
+    text: text.length > MAX_ATTACHMENT_CHARS
+      ? `${text.slice(0, MAX_ATTACHMENT_CHARS)}\n[truncated]`
+      : text,
+  };
+}
+
+/**
+ * Message text as sent to the model, with attached resources appended
+ */
+export function withAttachments(message: ChatMessage): string {
+  if (!message.attachments || message.attachments.length === 0) {
+    return message.content;
+  }
+
+  const blocks = message.attachments.map(attachment =>
+    `<resource uri="${attachment.uri}" name="${attachment.name}">\n${attachment.text}\n</resource>`
+  );
+
+  return `${message.content}\n\nAttached resources:\n${blocks.join('\n')}`;
+}
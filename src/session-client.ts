@@ -0,0 +1,132 @@
+import { ChatMessage, ChatSession, ConversationSettings, WordPressConfig } from './types';
+import { serializeMessage, deserializeMessage } from './message-serialization';
+
+/**
+ * Client for the chat session and history endpoints of the WordPress REST API
+ */
+export class ChatSessionClient {
+  constructor(private config: WordPressConfig) {}
+
+  /**
+   * List the current user's sessions, optionally filtered by a search term
+   */
+  async listSessions(search = ''): Promise<ChatSession[]> {
+    const params = new URLSearchParams({ limit: '100' });
+    if (search.trim()) {
+      params.set('search', search.trim());
+    }
+
+    const data = await this.request(`chat/sessions?${params.toString()}`);
+
+    return (data.sessions || []).map(deserializeSession);
+  }
+
+  /**
+   * Get a single session, or null if it has not been stored yet
+   */
+  async getSession(sessionId: string): Promise<ChatSession | null> {
+    try {
+      const data = await this.request(`chat/sessions/${encodeURIComponent(sessionId)}`);
+      return deserializeSession(data.session);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Rename a session
+   */
+  async renameSession(sessionId: string, title: string): Promise<void> {
+    await this.request(`chat/sessions/${encodeURIComponent(sessionId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ title }),
+    });
+  }
+
+  /**
+   * Store the generation settings of a session, creating it if needed
+   */
+  async updateSessionSettings(sessionId: string, settings: ConversationSettings): Promise<void> {
+    await this.request(`chat/sessions/${encodeURIComponent(sessionId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify({
+        settings: {
+          provider: settings.provider,
+          model: settings.model,
+          temperature: settings.temperature,
+          max_tokens: settings.maxTokens,
+          system_prompt: settings.systemPrompt,
+        },
+      }),
+    });
+  }
+
+  /**
+   * Delete a session and its messages
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.request(`chat/sessions/${encodeURIComponent(sessionId)}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Load the stored messages of a session
+   */
+  async loadHistory(sessionId: string, limit = 50): Promise<ChatMessage[]> {
+    const params = new URLSearchParams({ session_id: sessionId, limit: String(limit) });
+    const data = await this.request(`chat/history?${params.toString()}`);
+
+    return (data.history || []).map(deserializeMessage);
+  }
+
+  /**
+   * Append a message to a session, creating the session if needed
+   */
+  async saveMessage(sessionId: string, message: ChatMessage): Promise<void> {
+    await this.request('chat', {
+      method: 'POST',
+      body: JSON.stringify({
+        ...serializeMessage(message),
+        session_id: sessionId,
+      }),
+    });
+  }
+
+  private async request(path: string, init: RequestInit = {}): Promise<any> {
+    const response = await fetch(`${this.config.restUrl}${path}`, {
+      ...init,
+      headers: {
+        'X-WP-Nonce': this.config.nonce,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || data.success === false) {
+      throw new Error(data.message || `Request to ${path} failed with status ${response.status}`);
+    }
+
+    return data;
+  }
+}
+
+function deserializeSession(session: any): ChatSession {
+  const settings = session.settings || {};
+
+  return {
+    id: session.id,
+    title: session.title || '',
+    settings: {
+      provider: settings.provider || undefined,
+      model: settings.model || undefined,
+      temperature: settings.temperature ?? undefined,
+      maxTokens: settings.max_tokens ?? undefined,
+      systemPrompt: settings.system_prompt || undefined,
+    },
+    messageCount: session.message_count || 0,
+    createdAt: new Date(session.created_at),
+    updatedAt: new Date(session.updated_at),
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Small regex-based syntax highlighter for fenced code blocks.
+ *
+ * It recognises comments, strings, numbers, keywords and a few
+ * language-specific tokens; anything it does not know is left plain.
+ */
+
+export type TokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'literal' | 'variable' | 'tag' | 'attribute';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface LanguageRule {
+  type: TokenType;
+  pattern: RegExp;
+}
+
+const C_COMMENTS: LanguageRule = { type: 'comment', pattern: /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/ };
+const HASH_COMMENTS: LanguageRule = { type: 'comment', pattern: /#[^\n]*/ };
+const QUOTED_STRINGS: LanguageRule = { type: 'string', pattern: /"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?/ };
+const NUMBERS: LanguageRule = { type: 'number', pattern: /\b(?:0[xX][\da-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/ };
+
+function keywords(type: TokenType, words: string): LanguageRule {
+  return { type, pattern: new RegExp(`\\b(?:${words.trim().split(/\s+/).join('|')})\\b`) };
+}
+
+const JAVASCRIPT: LanguageRule[] = [
+  C_COMMENTS,
+  { type: 'string', pattern: /`(?:[^`\\]|\\[\s\S])*`?/ },
+  QUOTED_STRINGS,
+  keywords('keyword', `
+    as async await break case catch class const continue debugger default delete do else enum export
+    extends finally for from function if implements import in instanceof interface let new of private
+    protected public readonly return static super switch this throw try type typeof var void while yield
+  `),
+  keywords('literal', 'true false null undefined NaN Infinity'),
+  NUMBERS,
+];
+
+const LANGUAGES: Record<string, LanguageRule[]> = {
+  javascript: JAVASCRIPT,
+  typescript: JAVASCRIPT,
+  json: [
+    { type: 'attribute', pattern: /"(?:[^"\\\n]|\\.)*"(?=\s*:)/ },
+    QUOTED_STRINGS,
+    keywords('literal', 'true false null'),
+    { type: 'number', pattern: /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/ },
+  ],
+  php: [
+    { type: 'tag', pattern: /<\?php|<\?=|\?>/ },
+    C_COMMENTS,
+    HASH_COMMENTS,
+    QUOTED_STRINGS,
+    { type: 'variable', pattern: /\$[a-zA-Z_]\w*/ },
+    keywords('keyword', `
+      abstract and array as break callable case catch class clone const continue declare default do echo
+      else elseif empty enddeclare endfor endforeach endif endswitch endwhile extends final finally fn for
+      foreach function global goto if implements include include_once instanceof insteadof interface isset
+      list match namespace new or print private protected public readonly require require_once return static
+      switch throw trait try unset use var while xor yield
+    `),
+    keywords('literal', 'true false null TRUE FALSE NULL'),
+    NUMBERS,
+  ],
+  python: [
+    HASH_COMMENTS,
+    { type: 'string', pattern: /(?:[rRbBfFuU]{1,2})?(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/ },
+    QUOTED_STRINGS,
+    keywords('keyword', `
+      and as assert async await break class continue def del elif else except finally for from global if
+      import in is lambda nonlocal not or pass raise return try while with yield
+    `),
+    keywords('literal', 'True False None'),
+    NUMBERS,
+  ],
+  bash: [
+    HASH_COMMENTS,
+    QUOTED_STRINGS,
+    { type: 'variable', pattern: /\$(?:\{[^}\n]*\}|[a-zA-Z_]\w*|[0-9@#?$!*-])/ },
+    keywords('keyword', `
+      if then else elif fi case esac for while until do done in function return exit export local
+      readonly unset source
+    `),
+    NUMBERS,
+  ],
+  css: [
+    { type: 'comment', pattern: /\/\*[\s\S]*?(?:\*\/|$)/ },
+    QUOTED_STRINGS,
+    { type: 'keyword', pattern: /@[a-zA-Z-]+/ },
+    { type: 'attribute', pattern: /[a-zA-Z-]+(?=\s*:[^:{}]*[;}])/ },
+    { type: 'number', pattern: /#[\da-fA-F]{3,8}\b|-?\b\d+(?:\.\d+)?(?:%|[a-zA-Z]+)?/ },
+  ],
+  html: [
+    { type: 'comment', pattern: /<!--[\s\S]*?(?:-->|$)/ },
+    { type: 'tag', pattern: /<\/?[a-zA-Z][\w:-]*|\/?>/ },
+    { type: 'attribute', pattern: /\b[a-zA-Z_:][\w:.-]*(?==)/ },
+    QUOTED_STRINGS,
+  ],
+  sql: [
+    { type: 'comment', pattern: /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/ },
+    QUOTED_STRINGS,
+    {
+      type: 'keyword',
+      pattern: /\b(?:select|from|where|and|or|not|insert|into|values|update|set|delete|create|alter|drop|table|index|view|join|inner|left|right|outer|on|as|group|by|order|having|limit|offset|distinct|union|all|in|is|like|between|case|when|then|else|end|primary|key|foreign|references|default|exists|asc|desc)\b/i,
+    },
+    keywords('literal', 'null true false'),
+    NUMBERS,
+  ],
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  console: 'bash',
+  xml: 'html',
+  svg: 'html',
+  vue: 'html',
+  scss: 'css',
+  less: 'css',
+  jsonc: 'json',
+  mysql: 'sql',
+};
+
+// Combined sticky patterns, built on first use per language
+const compiled = new Map<string, { pattern: RegExp; types: TokenType[] }>();
+
+/**
+ * Canonical language name for a fence info string, or undefined when the
+ * language is not supported
+ */
+export function resolveLanguage(language: string): string | undefined {
+  const name = ALIASES[language.toLowerCase()] || language.toLowerCase();
+  return LANGUAGES[name] ? name : undefined;
+}
+
+/**
+ * Split code into highlighted tokens. Unsupported languages produce a
+ * single plain token.
+ */
+export function highlightCode(code: string, language: string): Token[] {
+  const name = resolveLanguage(language);
+  if (!name) {
+    return [{ type: 'plain', text: code }];
+  }
+
+  const { pattern, types } = getCompiled(name);
+  const tokens: Token[] = [];
+  let plain = '';
+  let index = 0;
+
+  while (index < code.length) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(code);
+
+    if (!match || match[0] === '') {
+      plain += code[index];
+      index++;
+      continue;
+    }
+
+    const groupIndex = match.findIndex((group, i) => i > 0 && group !== undefined);
+    if (plain) {
+      tokens.push({ type: 'plain', text: plain });
+      plain = '';
+    }
+    tokens.push({ type: types[groupIndex - 1], text: match[0] });
+    index += match[0].length;
+  }
+
+  if (plain) {
+    tokens.push({ type: 'plain', text: plain });
+  }
+
+  return tokens;
+}
+
+function getCompiled(name: string): { pattern: RegExp; types: TokenType[] } {
+  let entry = compiled.get(name);
+  if (!entry) {
+    const rules = LANGUAGES[name];
+    const flags = rules.some(rule => rule.pattern.flags.includes('i')) ? 'yi' : 'y';
+    // One alternation of all rules; the first rule that matches at a position wins
+    entry = {
+      pattern: new RegExp(rules.map(rule => `(${rule.pattern.source})`).join('|'), flags),
+      types: rules.map(rule => rule.type),
+    };
+    compiled.set(name, entry);
+  }
+  return entry;
+}
@@ -0,0 +1,99 @@
+import { MCPTool, SiteInfo, WordPressConfig } from './types';
+
+/**
+ * Default system prompt. Placeholders in braces are filled by renderSystemPrompt();
+ * the same placeholders are available to the template on the settings page.
+ */
+export const DEFAULT_SYSTEM_PROMPT_TEMPLATE = `You are a helpful AI assistant integrated into the WordPress site "{site_name}". You can interact with WordPress through MCP (Model Context Protocol) tools.
+
+Available tools:
+{tool_list}
+
+Guidelines:
+- Always be helpful and provide accurate information
+- When performing WordPress actions, explain what you're doing
+- Ask for confirmation before making significant changes
+- Respect user permissions and WordPress security
+- Provide clear, actionable responses
+
+Site Information:
+- Site Name: {site_name}
+- Site URL: {site_url}
+- Tagline: {site_description}
+- WordPress Version: {wordpress_version}
+- Active Theme: {theme}
+- Current User: {user_name} ({user_role})
+- Today's Date: {date}
+
+You should use the available MCP tools to interact with WordPress when users request actions like creating posts, managing content, or retrieving site information.`;
+
+export const SYSTEM_PROMPT_PLACEHOLDERS = [
+  'site_name',
+  'site_url',
+  'site_description',
+  'wordpress_version',
+  'theme',
+  'user_name',
+  'user_role',
+  'tool_list',
+  'date',
+] as const;
+
+export interface SystemPromptContext {
+  template: string;
+  siteInfo?: SiteInfo;
+  tools: MCPTool[];
+}
+
+/**
+ * Fill `{placeholder}` tokens; unknown placeholders are left untouched
+ */
+export function renderSystemPrompt(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+/**
+ * Collect placeholder values from the WordPress config, live site info and tool list
+ */
+export function buildSystemPromptValues(
+  config: WordPressConfig,
+  siteInfo: SiteInfo | undefined,
+  tools: MCPTool[],
+  now: Date = new Date()
+): Record<string, string> {
+  const fallbackUrl = config.restUrl.replace(/\/wp-json\/.*$/, '');
+
+  return {
+    site_name: siteInfo?.name || 'this WordPress site',
+    site_url: siteInfo?.url || fallbackUrl,
+    site_description: siteInfo?.description || 'n/a',
+    wordpress_version: siteInfo?.wordpress_version || 'unknown',
+    theme: siteInfo?.theme ? `${siteInfo.theme.name} ${siteInfo.theme.version}`.trim() : 'unknown',
+    user_name: config.currentUser.display_name,
+    user_role: config.currentUser.roles?.join(', ') || 'unknown role',
+    tool_list: tools.length > 0
+      ? tools.map(tool => `- ${tool.name}: ${tool.description}`).join('\n')
+      : '- (no tools available)',
+    date: now.toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }),
+  };
+}
+
+/**
+ * Extract site details from a `get-site-info` tool result
+ */
+export function parseSiteInfoResult(content: Array<{ type: string; text?: string }>): SiteInfo | undefined {
+  for (const item of content) {
+    if (item.type !== 'text' || !item.text) continue;
+
+    try {
+      const data = JSON.parse(item.text);
+      if (data && typeof data.site === 'object') {
+        return data.site;
+      }
+    } catch {
+      // Not JSON; try the next content block
+    }
+  }
+
+  return undefined;
+}
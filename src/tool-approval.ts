@@ -0,0 +1,28 @@
+import { MCPTool, ToolApprovalPolicy } from './types';
+
+/**
+ * Decide whether a tool must be confirmed by the user before it runs.
+ *
+ * An explicit per-tool policy wins. Otherwise MCP annotations are used:
+ * destructive tools always ask, read-only tools never do, and tools that
+ * declare neither (or are unknown) are treated as potentially mutating.
+ */
+export function toolRequiresApproval(
+  tool: MCPTool | undefined,
+  policy: ToolApprovalPolicy = {}
+): boolean {
+  if (!tool) {
+    return true;
+  }
+
+  const override = policy[tool.name];
+  if (override) {
+    return override === 'ask';
+  }
+
+  if (tool.annotations?.destructiveHint) {
+    return true;
+  }
+
+  return tool.annotations?.readOnlyHint !== true;
+}
@@ -0,0 +1,141 @@
+import { MCPContentBlock, ToolResult } from './types';
+
+/**
+ * A piece of a tool result, classified for display
+ */
+export type ToolResultPart =
+  | { kind: 'text'; text: string }
+  | { kind: 'json'; value: unknown }
+  | { kind: 'posts'; posts: PostSummary[]; totalFound?: number; message?: string }
+  | { kind: 'image'; src: string; mimeType: string }
+  | { kind: 'resource'; uri: string; mimeType?: string; text?: string; size?: number }
+  | { kind: 'link'; uri: string; name?: string; description?: string }
+  | { kind: 'unsupported'; type: string; mimeType?: string };
+
+/**
+ * A row of the `wp-mcp/list-posts` output
+ */
+export interface PostSummary {
+  id: number;
+  title: string;
+  status?: string;
+  date?: string;
+  author?: string;
+  post_type?: string;
+  permalink?: string;
+  edit_url?: string;
+}
+
+// Only raster and vector formats the browser renders safely as <img>
+const INLINE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif'];
+
+/**
+ * Split a stored tool result into displayable parts. Text that holds JSON
+ * is parsed so it can be shown as a tree, or as a table for post lists.
+ */
+export function parseToolResult(result: ToolResult, toolName?: string): ToolResultPart[] {
+  const { result: value } = result;
+
+  if (value === null || value === undefined) {
+    return [];
+  }
+
+  if (typeof value === 'string') {
+    return [classifyText(value, toolName)];
+  }
+
+  if (!Array.isArray(value) || !value.every(isContentBlock)) {
+    return [classifyValue(value, toolName)];
+  }
+
+  return value.map(block => classifyBlock(block, toolName));
+}
+
+/**
+ * Whether a tool returns the `wp-mcp/list-posts` shape. MCP adapters
+ * publish the ability under sanitized names, so only the suffix is compared.
+ */
+export function isListPostsTool(toolName?: string): boolean {
+  return Boolean(toolName && /list[-_]posts$/.test(toolName));
+}
+
+/**
+ * Links from tool output are only followed when they point at the web
+ */
+export function safeHref(url: unknown): string | undefined {
+  if (typeof url !== 'string') {
+    return undefined;
+  }
+
+  try {
+    const parsed = new URL(url, window.location.href);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function classifyBlock(block: MCPContentBlock, toolName?: string): ToolResultPart {
+  switch (block.type) {
+    case 'text':
+      return classifyText(block.text || '', toolName);
+    case 'image':
+      return block.data && block.mimeType && INLINE_IMAGE_TYPES.includes(block.mimeType)
+        ? { kind: 'image', src: `data:${block.mimeType};base64,${block.data}`, mimeType: block.mimeType }
+        : { kind: 'unsupported', type: block.type, mimeType: block.mimeType };
+    case 'resource':
+      return block.resource
+        ? {
+            kind: 'resource',
+            uri: block.resource.uri,
+            mimeType: block.resource.mimeType,
+            text: block.resource.text,
+            size: block.resource.blob !== undefined ? Math.floor(block.resource.blob.length * 3 / 4) : undefined,
+          }
+        : { kind: 'unsupported', type: block.type };
+    case 'resource_link':
+      return block.uri
+        ? { kind: 'link', uri: block.uri, name: block.name, description: block.description }
+        : { kind: 'unsupported', type: block.type };
+    default:
+      return { kind: 'unsupported', type: block.type, mimeType: block.mimeType };
+  }
+}
+
+function classifyText(text: string, toolName?: string): ToolResultPart {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return classifyValue(JSON.parse(trimmed), toolName);
+    } catch {
+      // Not JSON after all; show it as text
+    }
+  }
+
+  return { kind: 'text', text };
+}
+
+function classifyValue(value: unknown, toolName?: string): ToolResultPart {
+  if (isListPostsTool(toolName) && isPlainObject(value) && Array.isArray(value.posts) && value.posts.every(isPostSummary)) {
+    return {
+      kind: 'posts',
+      posts: value.posts,
+      totalFound: typeof value.total_found === 'number' ? value.total_found : undefined,
+      message: typeof value.message === 'string' ? value.message : undefined,
+    };
+  }
+
+  return { kind: 'json', value };
+}
+
+function isContentBlock(value: unknown): value is MCPContentBlock {
+  return isPlainObject(value) && typeof value.type === 'string';
+}
+
+function isPostSummary(value: unknown): value is PostSummary {
+  return isPlainObject(value) && typeof value.id === 'number' && typeof value.title === 'string';
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,366 @@
+import { JSONSchema, MCPTool, OpenAIFunctionTool } from './types';
+
+/**
+ * A tool as offered to the model, with the MCP tool it maps back to
+ */
+export interface TranslatedTool {
+  definition: OpenAIFunctionTool;
+  tool: MCPTool;
+}
+
+// OpenAI function names must match ^[a-zA-Z0-9_-]{1,64}$
+const MAX_FUNCTION_NAME_LENGTH = 64;
+const INVALID_NAME_CHARACTERS = /[^a-zA-Z0-9_-]/g;
+
+// Models that accept `strict: true` function definitions
+const STRICT_MODEL_PATTERN = /^(gpt-4o|gpt-4\.1|gpt-5|o1|o3|o4)/;
+
+// Keywords with no meaning to the model
+const METADATA_KEYWORDS = ['$schema', '$id', '$comment'];
+
+// Keywords strict mode rejects. Their values are kept as a hint in the description.
+const STRICT_UNSUPPORTED_KEYWORDS = [
+  'minLength',
+  'maxLength',
+  'format',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'multipleOf',
+  'minItems',
+  'maxItems',
+  'uniqueItems',
+  'minProperties',
+  'maxProperties',
+  'default',
+  'examples',
+  'deprecated',
+  'readOnly',
+  'writeOnly',
+];
+
+/**
+ * Whether a model supports strict function calling
+ */
+export function supportsStrictFunctions(model: string): boolean {
+  return STRICT_MODEL_PATTERN.test(model);
+}
+
+/**
+ * Translate MCP tools into OpenAI function tools.
+ *
+ * Names are made valid and unique for OpenAI; the returned map is keyed by
+ * the OpenAI name so tool calls can be resolved back to their MCP tool. In
+ * strict mode each schema is normalized for structured outputs; tools whose
+ * schema cannot be expressed strictly (e.g. free-form objects) are sent
+ * non-strict instead.
+ */
+export function translateTools(tools: MCPTool[], strict: boolean): Map<string, TranslatedTool> {
+  const translated = new Map<string, TranslatedTool>();
+
+  for (const tool of tools) {
+    const name = uniqueFunctionName(tool.name, translated);
+    const strictSchema = strict ? toStrictSchema(tool.inputSchema, true) : null;
+
+    translated.set(name, {
+      tool,
+      definition: {
+        type: 'function',
+        function: {
+          name,
+          description: tool.description || tool.title || tool.annotations?.title || '',
+          parameters: strictSchema || toLooseSchema(tool.inputSchema),
+          ...(strictSchema ? { strict: true } : {}),
+        },
+      },
+    });
+  }
+
+  return translated;
+}
+
+/**
+ * Drop `null` values that strict mode forced the model to send for optional
+ * properties, so the MCP server sees them as omitted. Follows the schema the
+ * way toStrictSchema() does: into nested objects, array items, `$ref`s and
+ * `anyOf`/`oneOf` branches.
+ */
+export function removeNullOptionalArguments(args: Record<string, any>, schema: JSONSchema): Record<string, any> {
+  return removeNullOptionals(args, schema, schema);
+}
+
+function removeNullOptionals(value: any, schema: any, root: JSONSchema): any {
+  const resolved = resolveSchema(schema, root);
+  if (!resolved) {
+    return value;
+  }
+
+  const branches = resolved.anyOf || resolved.oneOf;
+  if (Array.isArray(branches)) {
+    const branch = branches.find((candidate: any) => fitsSchema(value, resolveSchema(candidate, root)));
+    if (branch) {
+      return removeNullOptionals(value, branch, root);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    return isPlainObject(resolved.items)
+      ? value.map(item => removeNullOptionals(item, resolved.items, root))
+      : value;
+  }
+
+  if (!isPlainObject(value) || !resolved.properties) {
+    return value;
+  }
+
+  const required = new Set<string>(resolved.required || []);
+  const cleaned: Record<string, any> = {};
+  for (const [key, propertyValue] of Object.entries(value)) {
+    if (propertyValue === null && !required.has(key)) {
+      continue;
+    }
+    cleaned[key] = removeNullOptionals(propertyValue, resolved.properties[key], root);
+  }
+
+  return cleaned;
+}
+
+/**
+ * Follow local `$ref`s and merge a single `allOf`, as toStrictSchema() does
+ */
+function resolveSchema(schema: any, root: JSONSchema): Record<string, any> | undefined {
+  const seen = new Set<string>();
+  let resolved = schema;
+
+  while (isPlainObject(resolved)) {
+    if (typeof resolved.$ref === 'string') {
+      if (seen.has(resolved.$ref) || !resolved.$ref.startsWith('#')) {
+        return undefined;
+      }
+      seen.add(resolved.$ref);
+      resolved = resolveJsonPointer(root, resolved.$ref.slice(1));
+    } else if (Array.isArray(resolved.allOf) && resolved.allOf.length === 1) {
+      const { allOf, ...rest } = resolved;
+      resolved = { ...rest, ...allOf[0] };
+    } else {
+      return resolved;
+    }
+  }
+
+  return undefined;
+}
+
+function resolveJsonPointer(root: any, pointer: string): any {
+  return pointer
+    .split('/')
+    .slice(1)
+    .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((node, segment) => (isPlainObject(node) ? node[segment] : undefined), root);
+}
+
+/**
+ * Whether a value has the shape of an anyOf branch. Strict mode makes the
+ * model send every property of the branch it picked, so an object fits a
+ * branch that declares all of its keys.
+ */
+function fitsSchema(value: any, schema: Record<string, any> | undefined): boolean {
+  if (!schema) {
+    return false;
+  }
+  if (Array.isArray(value)) {
+    return schema.type === 'array' || schema.items !== undefined;
+  }
+  if (isPlainObject(value)) {
+    const properties = schema.properties;
+    return isPlainObject(properties) && Object.keys(value).every(key => key in properties);
+  }
+  return false;
+}
+
+/**
+ * Make a tool name valid as an OpenAI function name
+ */
+export function sanitizeFunctionName(toolName: string): string {
+  const name = toolName.replace(INVALID_NAME_CHARACTERS, '_') || 'tool';
+
+  if (name.length <= MAX_FUNCTION_NAME_LENGTH) {
+    return name;
+  }
+
+  const hash = hashString(toolName);
+  return `${name.slice(0, MAX_FUNCTION_NAME_LENGTH - hash.length - 1)}_${hash}`;
+}
+
+function uniqueFunctionName(toolName: string, taken: Map<string, unknown>): string {
+  const name = sanitizeFunctionName(toolName);
+
+  let candidate = name;
+  for (let suffix = 2; taken.has(candidate); suffix++) {
+    const tail = `_${suffix}`;
+    candidate = `${name.slice(0, MAX_FUNCTION_NAME_LENGTH - tail.length)}${tail}`;
+  }
+
+  return candidate;
+}
+
+function hashString(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/**
+ * Full schema with metadata removed and an object root OpenAI accepts
+ */
+function toLooseSchema(schema: JSONSchema): JSONSchema {
+  const loose = stripKeywords(schema, METADATA_KEYWORDS);
+
+  return {
+    ...loose,
+    type: 'object',
+    properties: loose.properties || {},
+  };
+}
+
+/**
+ * Normalize a schema for strict mode: every object closes its properties
+ * and requires all of them, optional properties become nullable, and
+ * unsupported keywords move into the description. Returns null when the
+ * schema cannot be made strict.
+ */
+function toStrictSchema(schema: any, isRoot = false): any | null {
+  if (!isPlainObject(schema)) {
+    return schema;
+  }
+
+  let result = stripKeywords(schema, METADATA_KEYWORDS);
+  result = moveUnsupportedKeywordsToDescription(result);
+
+  if (result.allOf) {
+    if (result.allOf.length !== 1) return null;
+    const { allOf, ...rest } = result;
+    return toStrictSchema({ ...rest, ...allOf[0] }, isRoot);
+  }
+
+  if (result.oneOf) {
+    // Strict mode has anyOf only; the model is still asked to pick one branch
+    const { oneOf, ...rest } = result;
+    result = { ...rest, anyOf: oneOf };
+  }
+
+  if (result.not || result.if || result.patternProperties) {
+    return null;
+  }
+
+  for (const key of ['$defs', 'definitions']) {
+    if (result[key]) {
+      const defs: Record<string, any> = {};
+      for (const [name, definition] of Object.entries(result[key])) {
+        const strictDefinition = toStrictSchema(definition);
+        if (strictDefinition === null) return null;
+        defs[name] = strictDefinition;
+      }
+      result[key] = defs;
+    }
+  }
+
+  if (result.anyOf) {
+    const branches = result.anyOf.map((branch: any) => toStrictSchema(branch));
+    if (branches.includes(null)) return null;
+    result.anyOf = branches;
+  }
+
+  if (result.items) {
+    const items = toStrictSchema(result.items);
+    if (items === null) return null;
+    result.items = items;
+  }
+
+  const isObject = result.type === 'object' || (Array.isArray(result.type) && result.type.includes('object'));
+  if (isObject || result.properties) {
+    const properties: Record<string, any> = result.properties || {};
+    const hasProperties = Object.keys(properties).length > 0;
+
+    // Free-form objects cannot be described with closed properties
+    if (result.additionalProperties && result.additionalProperties !== false) return null;
+    if (!hasProperties && !isRoot && result.additionalProperties !== false) return null;
+
+    const required = new Set<string>(result.required || []);
+    const strictProperties: Record<string, any> = {};
+    for (const [name, property] of Object.entries(properties)) {
+      const strictProperty = toStrictSchema(property);
+      if (strictProperty === null) return null;
+      strictProperties[name] = required.has(name) ? strictProperty : makeNullable(strictProperty);
+    }
+
+    result.type = result.type || 'object';
+    result.properties = strictProperties;
+    result.required = Object.keys(strictProperties);
+    result.additionalProperties = false;
+  }
+
+  if (isRoot && result.type !== 'object') {
+    return null;
+  }
+
+  return result;
+}
+
+function makeNullable(schema: any): any {
+  if (!isPlainObject(schema)) {
+    return schema;
+  }
+
+  if (typeof schema.type === 'string' && !schema.anyOf) {
+    const nullable: Record<string, any> = { ...schema, type: [schema.type, 'null'] };
+    if (Array.isArray(schema.enum) && !schema.enum.includes(null)) {
+      nullable.enum = [...schema.enum, null];
+    }
+    return nullable;
+  }
+
+  if (Array.isArray(schema.type)) {
+    return schema.type.includes('null') ? schema : { ...schema, type: [...schema.type, 'null'] };
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    return schema.anyOf.some((branch: any) => branch?.type === 'null')
+      ? schema
+      : { ...schema, anyOf: [...schema.anyOf, { type: 'null' }] };
+  }
+
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+function moveUnsupportedKeywordsToDescription(schema: Record<string, any>): Record<string, any> {
+  const hints = STRICT_UNSUPPORTED_KEYWORDS
+    .filter(keyword => schema[keyword] !== undefined)
+    .map(keyword => `${keyword}: ${JSON.stringify(schema[keyword])}`);
+
+  if (hints.length === 0) {
+    return schema;
+  }
+
+  const result = stripKeywords(schema, STRICT_UNSUPPORTED_KEYWORDS);
+  const note = `(${hints.join(', ')})`;
+  result.description = result.description ? `${result.description} ${note}` : note;
+
+  return result;
+}
+
+function stripKeywords(schema: Record<string, any>, keywords: string[]): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (!keywords.includes(key)) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
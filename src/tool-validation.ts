@@ -0,0 +1,57 @@
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv';
+import type { JsonSchemaValidator } from '@modelcontextprotocol/sdk/validation';
+import { JSONSchema, MCPTool } from './types';
+
+const validatorProvider = new AjvJsonSchemaValidator();
+
+// Compiled validators by schema object; tools keep the same schema until the list reloads
+const validators = new WeakMap<JSONSchema, JsonSchemaValidator<unknown> | null>();
+
+/**
+ * Validate tool-call arguments against the tool's inputSchema.
+ *
+ * Returns a description of every violation, or undefined when the arguments
+ * are valid. Unknown tools and schemas that cannot be compiled are not
+ * validated here; the server still checks them.
+ */
+export function validateToolArguments(
+  tool: MCPTool | undefined,
+  args: Record<string, any>
+): string | undefined {
+  if (!tool) {
+    return undefined;
+  }
+
+  const validate = getValidator(tool.inputSchema);
+  if (!validate) {
+    return undefined;
+  }
+
+  const result = validate(args);
+  return result.valid ? undefined : result.errorMessage.replace(/\bdata\b/g, 'arguments');
+}
+
+/**
+ * Tool error returned to the model so it can correct its call
+ */
+export function formatValidationError(toolName: string, validationError: string): string {
+  return `Invalid arguments for "${toolName}": ${validationError}. The tool was not executed; correct the arguments and call it again.`;
+}
+
+function getValidator(schema: JSONSchema): JsonSchemaValidator<unknown> | null {
+  if (validators.has(schema)) {
+    return validators.get(schema)!;
+  }
+
+  let validator: JsonSchemaValidator<unknown> | null = null;
+  try {
+    // The validator compiles for its default draft; a $schema for another draft would fail to resolve
+    const { $schema, ...compilable } = schema;
+    validator = validatorProvider.getValidator(compilable);
+  } catch (error) {
+    console.warn('Tool input schema could not be compiled for validation:', error);
+  }
+
+  validators.set(schema, validator);
+  return validator;
+}
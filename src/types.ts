@@ -3,48 +3,86 @@ export interface MCPClient {
   connect(serverUrl: string): Promise<void>;
   initialize(): Promise<MCPInitializeResult>;
   listTools(): Promise<MCPTool[]>;
-  callTool(name: string, args?: Record<string, any>): Promise<MCPToolResult>;
+  callTool(name: string, args?: Record<string, any>, signal?: AbortSignal): Promise<MCPToolResult>;
   listResources(): Promise<MCPResource[]>;
-  readResource(uri: string): Promise<MCPResourceContent>;
+  readResource(uri: string, signal?: AbortSignal): Promise<MCPResourceContent>;
+  listPrompts(): Promise<MCPPrompt[]>;
+  getPrompt(name: string, args?: Record<string, string>): Promise<MCPPromptResult>;
   disconnect(): Promise<void>;
 }
 
 export interface MCPInitializeResult {
   protocolVersion: string;
-  capabilities: {
-    tools?: {};
-    resources?: {};
-    prompts?: {};
-  };
+  capabilities: MCPServerCapabilities;
   serverInfo: {
     name: string;
     version: string;
+    title?: string;
   };
+  instructions?: string;
+}
+
+// Capabilities the server advertised during the initialize handshake
+export interface MCPServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  logging?: {};
+  completions?: {};
+  experimental?: Record<string, unknown>;
 }
 
 export interface MCPTool {
   name: string;
+  serverId?: string; // Set by MCPClientManager
+  title?: string;
   description: string;
-  inputSchema: {
-    type: 'object';
-    properties: Record<string, any>;
-    required?: string[];
-  };
+  inputSchema: JSONSchema;
+  outputSchema?: JSONSchema;
+  annotations?: MCPToolAnnotations;
+}
+
+// Object schema as declared by the server; all other JSON Schema keywords are kept
+export interface JSONSchema {
+  type: 'object';
+  properties?: Record<string, any>;
+  required?: string[];
+  [keyword: string]: any;
+}
+
+export interface MCPToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
 }
 
 export interface MCPToolResult {
-  content: Array<{
-    type: 'text' | 'image' | 'resource';
-    text?: string;
-    data?: string;
-    mimeType?: string;
-  }>;
+  content: MCPContentBlock[];
   isError?: boolean;
   meta?: Record<string, any>;
 }
 
+export interface MCPContentBlock {
+  type: 'text' | 'image' | 'audio' | 'resource' | 'resource_link';
+  text?: string;
+  data?: string; // base64, for images and audio
+  mimeType?: string;
+  resource?: {
+    uri: string;
+    mimeType?: string;
+    text?: string;
+    blob?: string;
+  };
+  uri?: string; // resource_link
+  name?: string; // resource_link
+  description?: string; // resource_link
+}
+
 export interface MCPResource {
   uri: string;
+  serverId?: string; // Set by MCPClientManager
   name: string;
   description?: string;
   mimeType?: string;
@@ -59,6 +97,64 @@ export interface MCPResourceContent {
   }>;
 }
 
+export interface MCPPrompt {
+  name: string;
+  serverId?: string; // Set by MCPClientManager
+  title?: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPromptResult {
+  description?: string;
+  messages: Array<{
+    role: 'user' | 'assistant';
+    content: {
+      type: string;
+      text?: string;
+      mimeType?: string;
+      resource?: {
+        uri: string;
+        mimeType?: string;
+        text?: string;
+        blob?: string;
+      };
+    };
+  }>;
+}
+
+// An MCP server from the plugin's server registry
+export interface MCPServerConfig {
+  id: string;
+  name: string;
+  url: string;
+}
+
+// A remote WordPress site reached through the plugin's MCP proxy; its
+// credentials stay on the server
+export interface RemoteSite {
+  id: string;
+  name: string;
+  url: string; // The remote MCP endpoint, for display
+}
+
+export type MCPConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface MCPServerState {
+  server: MCPServerConfig;
+  status: MCPConnectionStatus;
+  reconnectAttempt?: number;
+  error?: string;
+  serverInfo: MCPInitializeResult | null;
+  counts: { tools: number; resources: number; prompts: number };
+}
+
 // Chat Types
 export interface ChatMessage {
   id: string;
@@ -67,14 +163,65 @@ export interface ChatMessage {
   timestamp: Date;
   toolCalls?: ToolCall[];
   toolResults?: ToolResult[];
+  isStreaming?: boolean;
+  stopped?: boolean;
+  model?: string;
+  usage?: TokenUsage;
+  attachments?: MessageAttachment[];
+}
+
+// Resource contents attached to a user message as context
+export interface MessageAttachment {
+  uri: string;
+  name: string;
+  mimeType?: string;
+  text: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// USD per million tokens; applies to every model whose name starts with `model`
+export interface ModelPrice {
+  model: string;
+  input: number;
+  output: number;
+}
+
+// The current user's usage for a month, as recorded by the AI proxy
+export interface MonthlyUsage {
+  month: string; // YYYY-MM
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // Estimated USD, for models with a price
+  budget: number; // USD; 0 when there is no limit
 }
 
 export interface ToolCall {
   id: string;
   name: string;
   arguments: Record<string, any>;
+  approval?: ToolApprovalStatus;
+  validationError?: string; // Set when the arguments did not match the tool's inputSchema
+  status?: ToolCallStatus;
+  durationMs?: number;
 }
 
+export type ToolCallStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+export type ToolApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export type ToolApprovalDecision =
+  | { action: 'approve'; arguments: Record<string, any>; alwaysAllow?: boolean }
+  | { action: 'reject'; reason?: string };
+
+// Per-tool override of the annotation-based approval classification
+export type ToolApprovalPolicy = Record<string, 'ask' | 'allow'>;
+
 export interface ToolResult {
   id: string;
   result: any;
@@ -96,23 +243,42 @@ export interface ChatCompletionMessage {
   tool_call_id?: string;
 }
 
+export interface OpenAIFunctionTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: JSONSchema;
+    strict?: boolean;
+  };
+}
+
 export interface ChatCompletionRequest {
   model: string;
   messages: ChatCompletionMessage[];
-  tools?: Array<{
-    type: 'function';
-    function: {
-      name: string;
-      description: string;
-      parameters: Record<string, any>;
-    };
-  }>;
+  tools?: OpenAIFunctionTool[];
   tool_choice?: 'auto' | 'none' | { type: 'function'; function: { name: string } };
   stream?: boolean;
+  stream_options?: { include_usage: boolean };
   max_tokens?: number;
   temperature?: number;
 }
 
+export interface AssistantResponse {
+  message: string;
+  toolCalls?: ToolCall[];
+  model?: string;
+  usage?: TokenUsage;
+  finishReason?: string; // As reported by the provider, e.g. "tool_calls" or "end_turn"
+}
+
+// Chat model backends the server-side proxy can reach
+export type LLMProviderId = 'openai' | 'anthropic' | 'gemini' | 'local';
+
+export type StreamChunk =
+  | { type: 'content'; content: string }
+  | { type: 'tool_call'; index: number; id: string; name: string; arguments: string };
+
 // WordPress Types
 export interface WordPressConfig {
   restUrl: string;
@@ -122,12 +288,26 @@ export interface WordPressConfig {
     ID: number;
     display_name: string;
     user_email: string;
+    roles?: string[];
   };
   ajaxUrl: string;
   pluginUrl: string;
   isDebug: boolean;
 }
 
+// Site details returned by the get-site-info ability
+export interface SiteInfo {
+  name: string;
+  description?: string;
+  url: string;
+  language?: string;
+  wordpress_version?: string;
+  theme?: {
+    name: string;
+    version: string;
+  };
+}
+
 export interface WordPressAPIResponse<T = any> {
   success: boolean;
   data?: T;
@@ -138,20 +318,75 @@ export interface WordPressAPIResponse<T = any> {
 // Plugin Settings
 export interface PluginSettings {
   mcp_server_url: string;
+  mcp_servers: MCPServerConfig[]; // This site's server first
+  remote_sites: RemoteSite[];
   cloudflare_gateway_url: string;
   chat_history_enabled: boolean;
   max_messages_per_session: number;
   openai_api_key: string; // Will be masked as '***' in frontend
+  ai_providers: LLMProviderId[]; // Providers with credentials configured on the server
+  agent_max_iterations: number;
+  agent_max_tool_calls: number;
+  agent_max_parallel_tool_calls: number;
+  tool_approval_policy: ToolApprovalPolicy;
+  system_prompt: string; // Empty when the built-in template is used
+  model_prices: ModelPrice[];
 }
 
 // Chat Session
 export interface ChatSession {
   id: string;
-  messages: ChatMessage[];
+  title: string;
+  settings: ConversationSettings;
+  messageCount: number;
+  messages?: ChatMessage[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Per-conversation generation overrides; unset fields fall back to client defaults
+export interface ConversationSettings {
+  provider?: LLMProviderId;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  systemPrompt?: string;
+}
+
+// Debug inspector entries, recorded when WordPress debug mode is on
+export type DebugEntry = LLMDebugEntry | MCPDebugEntry | ToolDebugEntry;
+
+interface DebugEntryBase {
+  id: string;
+  startedAt: number;
+  durationMs?: number; // Unset while pending, and for one-way messages
+  request: unknown;
+  response?: unknown;
+  error?: string;
+}
+
+export interface LLMDebugEntry extends DebugEntryBase {
+  kind: 'llm';
+  provider: LLMProviderId;
+  model: string;
+  operation: 'send' | 'stream' | 'complete';
+  finishReason?: string;
+  usage?: TokenUsage;
+}
+
+export interface MCPDebugEntry extends DebugEntryBase {
+  kind: 'mcp';
+  server: string;
+  method: string; // "response" for replies to server requests
+  direction: 'outgoing' | 'incoming';
+}
+
+// A tool call run by the agent loop, including client-side tools such as read_resource
+export interface ToolDebugEntry extends DebugEntryBase {
+  kind: 'tool';
+  toolName: string;
+}
+
 // Error Types
 export class MCPError extends Error {
   constructor(
@@ -175,6 +410,25 @@ export class OpenAIError extends Error {
   }
 }
 
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public provider: LLMProviderId,
+    public status?: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+export class AbortError extends Error {
+  constructor(message = 'Request was cancelled') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
 // Event Types
 export type ChatEvent = 
   | { type: 'message'; data: ChatMessage }
@@ -190,4 +444,8 @@ export type MCPEvent =
   | { type: 'initialized'; data: MCPInitializeResult }
   | { type: 'tools_updated'; data: MCPTool[] }
   | { type: 'resources_updated'; data: MCPResource[] }
+  | { type: 'prompts_updated'; data: MCPPrompt[] }
+  | { type: 'reconnecting'; data: { attempt: number; delay: number } }
+  | { type: 'reconnected'; data: { resumed: boolean } }
+  | { type: 'servers_updated'; data: MCPServerState[] }
   | { type: 'error'; data: MCPError };
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { ChatMessage, ModelPrice, MonthlyUsage, TokenUsage, WordPressConfig } from './types';
+
+export interface SessionUsage extends TokenUsage {
+  cost: number | null; // Null when no message used a priced model
+}
+
+/**
+ * The price entry with the longest name the model starts with, so
+ * "gpt-4o" also prices "gpt-4o-2024-08-06". Mirrors Usage::estimate_cost().
+ */
+export function findModelPrice(model: string, prices: ModelPrice[]): ModelPrice | undefined {
+  return prices
+    .filter(price => model.startsWith(price.model))
+    .reduce<ModelPrice | undefined>((best, price) => (!best || price.model.length > best.model.length ? price : best), undefined);
+}
+
+/**
+ * Estimated cost in USD, or null when the model has no price
+ */
+export function estimateCost(usage: TokenUsage, model: string, prices: ModelPrice[]): number | null {
+  const price = findModelPrice(model, prices);
+  if (!price) {
+    return null;
+  }
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Add up the token usage and estimated cost of a conversation's messages
+ */
+export function summarizeSessionUsage(messages: ChatMessage[], prices: ModelPrice[]): SessionUsage {
+  const summary: SessionUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: null };
+
+  for (const message of messages) {
+    if (!message.usage) {
+      continue;
+    }
+
+    summary.promptTokens += message.usage.promptTokens;
+    summary.completionTokens += message.usage.completionTokens;
+    summary.totalTokens += message.usage.totalTokens;
+
+    const cost = message.model ? estimateCost(message.usage, message.model, prices) : null;
+    if (cost !== null) {
+      summary.cost = (summary.cost ?? 0) + cost;
+    }
+  }
+
+  return summary;
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+/**
+ * Load the current user's usage this month and their budget
+ */
+export async function fetchMonthlyUsage(config: WordPressConfig): Promise<MonthlyUsage> {
+  const response = await fetch(`${config.restUrl}usage`, {
+    headers: {
+      'X-WP-Nonce': config.nonce,
+    },
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    throw new Error(data.message || `Request to usage failed with status ${response.status}`);
+  }
+
+  return {
+    month: data.usage.month,
+    requests: data.usage.requests,
+    promptTokens: data.usage.prompt_tokens,
+    completionTokens: data.usage.completion_tokens,
+    cost: data.usage.cost,
+    budget: data.usage.budget,
+  };
+}